@@ -1,50 +1,467 @@
-import React, { useState } from 'react';
-import { Sparkles, Wind, Brain, Clock, Music } from 'lucide-react';
+import React, { useState, useRef, useEffect } from 'react';
+import { Sparkles, Wind, Brain, Clock, Music, AlertCircle, X, ArrowLeft, BookOpen, Palette, BookmarkPlus, Link2, PenLine, RefreshCcw, WifiOff } from 'lucide-react';
 import Button from './components/Button';
 import MeditationPlayer from './components/MeditationPlayer';
 import ChatWidget from './components/ChatWidget';
-import { generateMeditationContent, generateMeditationImage, generateMeditationAudio } from './services/gemini';
-import { AppView, MeditationSession, GenerationParams } from './types';
+import SessionLibrary from './components/SessionLibrary';
+import VoicePicker from './components/VoicePicker';
+import ImportDropZone from './components/ImportDropZone';
+import GenerationProgress from './components/GenerationProgress';
+import BreathingExercise from './components/BreathingExercise';
+import TimerSetup from './components/TimerSetup';
+import CourseList from './components/CourseList';
+import Profile from './components/Profile';
+import TemplateGallery from './components/TemplateGallery';
+import ScriptEditor from './components/ScriptEditor';
+import ImageReusePicker from './components/ImageReusePicker';
+import { streamMeditation, generateMeditationContent, generateMeditationAudio, generateMeditationImage, insertBreathing } from './services/meditation';
+import { createTimerSession } from './services/timer';
+import { courseContext, recordCourseSession, setDayCompleted } from './services/courses';
+import { rateMoodAfter, recordPractice } from './services/insights';
+import { createTemplate, parseTemplateParam, saveTemplate, TEMPLATE_PARAM } from './services/templates';
+import { failedStep, toGenerationError } from './services/errors';
+import { saveSession, loadSession } from './services/library';
+import { importBundle, BundleError } from './services/bundle';
+import { DURATION_PRESETS, MIN_DURATION_MINUTES, MAX_DURATION_MINUTES } from './utils/pacing';
+import { DEFAULT_VOICE_SETTINGS } from './utils/voices';
+import { loadPreference, savePreference } from './utils/storage';
+import { DEFAULT_AMBIENT_LEVELS } from './utils/ambient';
+import { getAudioContext } from './utils/audio';
+import { stripPauseMarkers } from './utils/script';
+import { AppView, Course, MeditationSession, GenerationParams, GenerationProgress as Progress, GenerationStep, SessionRequest, SessionTemplate, StepState, TimerSettings, VoiceSettings } from './types';
+
+// Everything but mood and focus is remembered between visits
+type GenerationDefaults = VoiceSettings & { duration: number };
+const DEFAULT_GENERATION: GenerationDefaults = { ...DEFAULT_VOICE_SETTINGS, duration: 10 };
+
+const INITIAL_STEPS: Progress = {
+  script: { status: 'pending' },
+  audio: { status: 'pending' },
+  image: { status: 'pending' },
+};
 
 export default function App() {
   const [view, setView] = useState<AppView>(AppView.HOME);
-  const [params, setParams] = useState<GenerationParams>({
+  const [params, setParams] = useState<GenerationParams>(() => ({
     mood: '',
-    duration: 'Short',
-    focus: ''
-  });
+    focus: '',
+    ...loadPreference('generationDefaults', DEFAULT_GENERATION)
+  }));
   const [session, setSession] = useState<MeditationSession | null>(null);
+  // Latest session, for retries that finish after other updates
+  const sessionRef = useRef(session);
+  sessionRef.current = session;
+  const [steps, setSteps] = useState<Progress | null>(null);
+  const generationRef = useRef<AbortController | null>(null);
   const [loadingStep, setLoadingStep] = useState<string>('');
+  const [notice, setNotice] = useState<string>('');
+  // Params of a session whose script was written up front (see generateFromContent), so a failed script retries the same way
+  const contentParamsRef = useRef<GenerationParams | null>(null);
+  const [courseId, setCourseId] = useState<string | null>(null);
+  // The practice record of the session just finished, for its after-session mood
+  const practiceIdRef = useRef<string | null>(null);
+  // Where the player is, for the guide chat; kept out of state to avoid re-rendering every frame
+  const playbackPositionRef = useRef(0);
+  // A template opened from a share link, until it's saved or dismissed
+  const [sharedTemplate, setSharedTemplate] = useState<SessionTemplate | null>(null);
+  // Name being typed for "Save as template"; null while the field is closed
+  const [templateName, setTemplateName] = useState<string | null>(null);
+  const [templateSaved, setTemplateSaved] = useState(false);
+  // Stop after the script so it can be edited before it is voiced
+  const [reviewScript, setReviewScript] = useState(() => loadPreference('reviewScript', false));
+  // Skip the content cache for the next sessions; the generation in progress keeps its choice for retries
+  const [forceFresh, setForceFresh] = useState(false);
+  const freshRef = useRef(false);
+  // An earlier session's image to use instead of painting a new one
+  const [reuseImage, setReuseImage] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  // Generation steps still in flight (the spinner stops once all have settled)
+  const isWorking = !steps || (Object.values(steps) as StepState[]).some((step) => step.status === 'running');
+
+  const updateDefaults = (patch: Partial<GenerationDefaults>) => {
+    const next = { ...params, ...patch };
+    setParams(next);
+    const { voice, pace, language, duration } = next;
+    savePreference<GenerationDefaults>('generationDefaults', { voice, pace, language, duration });
+  };
+
+  // Fills in the form from a template. Its voice, length and soundscape
+  // become the remembered defaults, as if picked by hand.
+  const applyTemplate = (template: SessionTemplate) => {
+    const next = { ...params, style: undefined, ...template.params };
+    setParams(next);
+    const { voice, pace, language, duration } = next;
+    savePreference<GenerationDefaults>('generationDefaults', { voice, pace, language, duration });
+    if (template.ambient) savePreference('ambient', template.ambient);
+    setTemplateName(null);
+    return next;
+  };
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  // Opens the app configured by a share link, then tidies the address bar
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    const value = url.searchParams.get(TEMPLATE_PARAM);
+    if (value === null) return;
+    const template = parseTemplateParam(value);
+    if (template) {
+      applyTemplate(template);
+      setSharedTemplate(template);
+    } else {
+      setNotice('That template link looks incomplete, so the usual settings are loaded.');
+    }
+    url.searchParams.delete(TEMPLATE_PARAM);
+    window.history.replaceState(null, '', url.toString());
+  }, []);
+
+  const setStep = (step: GenerationStep, state: StepState) =>
+    setSteps((current) => current && { ...current, [step]: state });
+
+  const openPlayer = () => setView((current) => (current === AppView.GENERATING ? AppView.PLAYER : current));
+
+  // Stops whatever is generating; its late updates are ignored
+  const stopGeneration = () => {
+    generationRef.current?.abort();
+    generationRef.current = null;
+    setSteps(null);
+  };
+
+  // Retries run under the current generation's signal, so Cancel stops them too
+  const retryController = () => {
+    if (!generationRef.current || generationRef.current.signal.aborted) {
+      generationRef.current = new AbortController();
+    }
+    return generationRef.current;
+  };
+
+  // Applies a patch to the current session and keeps the result in the
+  // library. A storage failure shouldn't block playback.
+  const commitSession = async (patch: Partial<MeditationSession>) => {
+    if (!sessionRef.current) return;
+    const next = { ...sessionRef.current, ...patch };
+    sessionRef.current = next;
+    setSession(next);
+    if (next.live) return; // saved once generation finishes
+
+    try {
+      const { id } = await saveSession(next);
+      setSession((current) => current && { ...current, id });
+      // A course day's session is replayed from the library after this
+      if (next.params?.course && !next.id) await recordCourseSession(next.params.course, id);
+    } catch (error) {
+      console.error("Saving session failed:", error);
+    }
+  };
 
-  const handleGenerate = async () => {
-    if (!params.mood || !params.focus) return;
+  const handleGenerate = async (request: GenerationParams = params) => {
+    if (!request.mood || !request.focus) return;
+    if (reviewScript) return generateFromContent(request);
 
+    stopGeneration();
+    contentParamsRef.current = null;
+    freshRef.current = forceFresh;
+    const controller = new AbortController();
+    generationRef.current = controller;
+    // Unlock audio while we still have the click, so playback can start on its own
+    getAudioContext().resume();
+    setSession(null);
+    setSteps(INITIAL_STEPS);
     setView(AppView.GENERATING);
-    
+
     try {
-      // Step 1: Script
-      setLoadingStep('Connecting to cosmic energy (Writing script)...');
-      const content = await generateMeditationContent(params.mood, params.focus, params.duration);
-      
-      // Step 2: Parallel Media Generation
-      setLoadingStep('Visualizing serenity & synthesizing voice...');
-      
-      const [imageUrl, audioBuffer] = await Promise.all([
-        generateMeditationImage(content.imagePrompt),
-        generateMeditationAudio(content.script)
-      ]);
-
-      setSession({
-        ...content,
-        imageUrl,
-        audioBuffer
+      // Script, voice and image stream in together. The player opens as soon
+      // as the first passage can be heard.
+      const generated = await streamMeditation(request, {
+        signal: controller.signal,
+        fresh: forceFresh,
+        imageUrl: reuseImage ?? undefined,
+        onUpdate: (partial) => {
+          if (controller !== generationRef.current) return;
+          sessionRef.current = partial;
+          setSession(partial);
+          if (partial.live?.clips.length) openPlayer();
+        },
+        onStep: (step, state) => {
+          if (controller === generationRef.current) setStep(step, state);
+        },
       });
+      if (controller !== generationRef.current) return;
+
+      // An image retried mid-stream is already on the session
+      await commitSession({ ...generated, imageUrl: generated.imageUrl ?? sessionRef.current?.imageUrl, live: undefined });
+      openPlayer();
+    } catch (error) {
+      // The failed step stays on screen with a way to start over
+      if (!controller.signal.aborted) console.error(error);
+    }
+  };
+
+  const retryAudio = async () => {
+    const current = sessionRef.current;
+    if (!current?.script) return;
+    const controller = retryController();
+    setStep('audio', { status: 'running' });
 
+    try {
+      const audio = await generateMeditationAudio(current.script, current.params ?? params, {
+        // A hand-edited script keeps its pauses as written
+        targetSeconds: current.params && !current.edited ? current.params.duration * 60 : undefined,
+        signal: controller.signal,
+        fresh: freshRef.current,
+        onUpdate: (live, cues) => {
+          if (controller !== generationRef.current) return;
+          setSession((s) => s && { ...s, live, cues });
+          if (live.clips.length) openPlayer();
+        },
+      });
+      if (controller !== generationRef.current) return;
+      setStep('audio', { status: 'done' });
+      await commitSession({ script: audio.script, audioBuffer: audio.audioBuffer, cues: audio.cues, targetMissed: audio.targetMissed, live: undefined });
+      openPlayer();
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      setStep('audio', failedStep(toGenerationError(error)));
+      setSession((s) => s && { ...s, live: undefined, cues: undefined });
+    }
+  };
+
+  const retryImage = async () => {
+    const current = sessionRef.current;
+    if (!current?.imagePrompt) return;
+    const controller = retryController();
+    setStep('image', { status: 'running' });
+
+    try {
+      const imageUrl = await generateMeditationImage(current.imagePrompt, controller.signal, freshRef.current);
+      if (controller !== generationRef.current) return;
+      setStep('image', { status: 'done' });
+      await commitSession({ imageUrl });
+    } catch (error) {
+      if (!controller.signal.aborted) setStep('image', failedStep(toGenerationError(error)));
+    }
+  };
+
+  // Writes the whole script first, then voice and image stream in the same
+  // way as a retry. Used where the script needs more than mood and focus,
+  // and when the script is to be reviewed before it is voiced.
+  const generateFromContent = async (request: GenerationParams) => {
+    stopGeneration();
+    contentParamsRef.current = request;
+    freshRef.current = forceFresh;
+    const controller = new AbortController();
+    generationRef.current = controller;
+    setSession(null);
+    setSteps({ ...INITIAL_STEPS, script: { status: 'running' } });
+    setView(AppView.GENERATING);
+
+    try {
+      const content = await generateMeditationContent(request, undefined, controller.signal, forceFresh);
+      if (controller !== generationRef.current) return;
+      sessionRef.current = { ...content, params: request, imageUrl: reuseImage ?? undefined };
+      setSession(sessionRef.current);
+      setStep('script', { status: 'done' });
+      if (reuseImage) setStep('image', { status: 'done' });
+      const paintImage = () => (reuseImage ? Promise.resolve() : retryImage());
+      if (reviewScript) {
+        setView(AppView.EDITOR);
+        await paintImage();
+        return;
+      }
+      await Promise.all([retryAudio(), paintImage()]);
+    } catch (error) {
+      if (!controller.signal.aborted) setStep('script', failedStep(toGenerationError(error)));
+    }
+  };
+
+  // A session shaped by the guide chat
+  const handleTailoredSession = (request: SessionRequest) => {
+    const tailored = { ...params, ...request };
+    setParams(tailored);
+    generateFromContent(tailored);
+  };
+
+  // Replays a course day's session, or generates it with the course as context
+  const handleOpenCourseDay = async (course: Course, day: number) => {
+    const { sessionId } = course.days[day];
+    if (sessionId) {
+      stopGeneration();
+      setView(AppView.GENERATING);
+      setLoadingStep('Returning to your sanctuary...');
+      try {
+        setSession(await loadSession(sessionId));
+        setView(AppView.PLAYER);
+        return;
+      } catch (error) {
+        // Deleted from the library; make it again
+        console.error(error);
+      }
+    }
+    generateFromContent({ ...course.params, course: courseContext(course, day) });
+  };
+
+  // Logs the practice for the insights dashboard, and ticks off a course day
+  const handleSessionComplete = async (listenedSeconds: number, moodBefore?: number) => {
+    const current = sessionRef.current;
+    if (!current) return;
+    practiceIdRef.current = null;
+    try {
+      const record = await recordPractice(current, listenedSeconds, moodBefore);
+      practiceIdRef.current = record?.id ?? null;
+    } catch (error) {
+      console.error("Recording practice failed:", error);
+    }
+
+    const course = current.params?.course;
+    if (!course) return;
+    try {
+      await setDayCompleted(course.courseId, course.day, true);
+    } catch (error) {
+      console.error("Recording course progress failed:", error);
+    }
+  };
+
+  const handleMoodAfter = async (mood: number) => {
+    if (!practiceIdRef.current) return;
+    try {
+      await rateMoodAfter(practiceIdRef.current, mood);
+    } catch (error) {
+      console.error("Saving mood check-in failed:", error);
+    }
+  };
+
+  // Voices an edited script. Unchanged paragraphs come from the speech
+  // cache, so only what was edited goes to TTS.
+  const handleVoiceScript = (script: string) => {
+    const current = sessionRef.current;
+    if (!current) return;
+    if (script === current.script && current.audioBuffer) {
+      setView(AppView.PLAYER);
+      return;
+    }
+    // Unchanged paragraphs are reused even if the script itself was written fresh
+    freshRef.current = false;
+    // The old audio no longer matches; the player follows the new voice as it arrives
+    sessionRef.current = { ...current, script, edited: current.edited || script !== current.script, audioBuffer: undefined, cues: undefined };
+    setSession(sessionRef.current);
+    setSteps((steps) => steps ?? { ...INITIAL_STEPS, script: { status: 'done' }, image: { status: 'done' } });
+    setView(AppView.GENERATING);
+    retryAudio();
+  };
+
+  const handleInsertBreathing = (spec: string, rounds: number, position: number) => {
+    if (!sessionRef.current) return;
+    const { session: { script, audioBuffer, cues }, at } = insertBreathing(sessionRef.current, spec, rounds, position);
+    // Made longer on purpose, so the length no longer counts against the target
+    commitSession({ script, audioBuffer, cues, targetMissed: false });
+    return at;
+  };
+
+  // An unguided sit. Bells are made locally; only a spoken intro has to be generated.
+  const handleStartTimer = async (settings: TimerSettings) => {
+    stopGeneration();
+    // Unlock audio while this still counts as the user's click
+    getAudioContext().resume();
+    const controller = new AbortController();
+    generationRef.current = controller;
+    setNotice('');
+    if (settings.spokenIntro) {
+      setSession(null);
+      setView(AppView.GENERATING);
+      setLoadingStep('Voicing your intro...');
+    }
+
+    try {
+      const timer = await createTimerSession(settings, params, controller.signal);
+      if (controller !== generationRef.current) return;
+      setSession(timer);
       setView(AppView.PLAYER);
     } catch (error) {
+      if (controller.signal.aborted) return;
       console.error(error);
-      setLoadingStep('Error connecting. Please try again.');
-      setTimeout(() => setView(AppView.HOME), 2000);
+      setNotice(toGenerationError(error).message);
+      setView(AppView.TIMER);
+    }
+  };
+
+  const handleUseTemplate = (template: SessionTemplate) => {
+    applyTemplate(template);
+    setView(AppView.HOME);
+  };
+
+  const handleGenerateTemplate = (template: SessionTemplate) => handleGenerate(applyTemplate(template));
+
+  const handleSaveTemplate = async (template: SessionTemplate) => {
+    try {
+      await saveTemplate(template);
+      setTemplateName(null);
+      setSharedTemplate(null);
+      setTemplateSaved(true);
+      setTimeout(() => setTemplateSaved(false), 2500);
+    } catch (error) {
+      console.error(error);
+      setNotice('The template could not be saved on this device.');
+    }
+  };
+
+  const handleRetry = (step: GenerationStep) => {
+    if (step === 'script') {
+      if (contentParamsRef.current) generateFromContent(contentParamsRef.current);
+      else handleGenerate();
+    }
+    else if (step === 'audio') retryAudio();
+    else retryImage();
+  };
+
+  const handleCancel = () => {
+    stopGeneration();
+    setView(AppView.HOME);
+  };
+
+  const handleOpenSaved = async (id: string) => {
+    stopGeneration();
+    setView(AppView.GENERATING);
+    setLoadingStep('Returning to your sanctuary...');
+
+    try {
+      setSession(await loadSession(id));
+      setView(AppView.PLAYER);
+    } catch (error) {
+      console.error(error);
+      setLoadingStep('Could not load this session.');
+      setTimeout(() => setView(AppView.LIBRARY), 2000);
+    }
+  };
+
+  const handleImport = async (files: File[]) => {
+    const previousView = view === AppView.GENERATING ? AppView.HOME : view;
+    stopGeneration();
+    setNotice('');
+    setView(AppView.GENERATING);
+    setLoadingStep('Unpacking your session...');
+
+    try {
+      const imported = await importBundle(files);
+      try {
+        setSession(await saveSession(imported));
+      } catch (error) {
+        console.error("Saving imported session failed:", error);
+        setSession(imported);
+      }
+      setView(AppView.PLAYER);
+    } catch (error) {
+      console.error(error);
+      setNotice(error instanceof BundleError ? error.message : 'This file could not be imported.');
+      setView(previousView);
     }
   };
 
@@ -66,12 +483,37 @@ export default function App() {
             <h1 className="text-2xl font-medium tracking-tight">ZenGen</h1>
           </div>
           <nav className="hidden md:flex gap-6 text-sm font-medium text-slate-400">
-            <a href="#" className="hover:text-white transition-colors">Gallery</a>
-            <a href="#" className="hover:text-white transition-colors">My Sessions</a>
-            <a href="#" className="hover:text-white transition-colors">Profile</a>
+            <button onClick={() => setView(AppView.GALLERY)} className={`hover:text-white transition-colors ${view === AppView.GALLERY ? 'text-white' : ''}`}>Gallery</button>
+            <button onClick={() => setView(AppView.COURSES)} className={`hover:text-white transition-colors ${view === AppView.COURSES ? 'text-white' : ''}`}>Courses</button>
+            <button onClick={() => setView(AppView.TIMER)} className={`hover:text-white transition-colors ${view === AppView.TIMER ? 'text-white' : ''}`}>Timer</button>
+            <button onClick={() => setView(AppView.BREATHING)} className={`hover:text-white transition-colors ${view === AppView.BREATHING ? 'text-white' : ''}`}>Breathe</button>
+            <button onClick={() => setView(AppView.LIBRARY)} className={`hover:text-white transition-colors ${view === AppView.LIBRARY ? 'text-white' : ''}`}>My Sessions</button>
+            <button onClick={() => setView(AppView.PROFILE)} className={`hover:text-white transition-colors ${view === AppView.PROFILE ? 'text-white' : ''}`}>Profile</button>
           </nav>
         </header>
 
+        {notice && (
+          <div className="mb-6 max-w-2xl mx-auto w-full flex items-start gap-3 bg-rose-500/10 border border-rose-500/30 text-rose-200 rounded-2xl px-5 py-4 animate-in fade-in">
+            <AlertCircle className="w-5 h-5 text-rose-400 shrink-0 mt-0.5" />
+            <p className="flex-1 text-sm">{notice}</p>
+            <button onClick={() => setNotice('')} className="text-rose-300/70 hover:text-white">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        {!isOnline && view !== AppView.PLAYER && (
+          <div className="mb-6 max-w-2xl mx-auto w-full flex items-center gap-3 bg-amber-500/10 border border-amber-500/30 text-amber-100 rounded-2xl px-5 py-4 animate-in fade-in">
+            <WifiOff className="w-5 h-5 text-amber-400 shrink-0" />
+            <p className="flex-1 text-sm">You're offline. Saved sessions still play; new ones need a connection.</p>
+            {view !== AppView.LIBRARY && (
+              <Button variant="ghost" className="!px-3 !py-1.5 text-sm" onClick={() => setView(AppView.LIBRARY)}>
+                My Sessions
+              </Button>
+            )}
+          </div>
+        )}
+
         {/* Main Content */}
         <main className="flex-grow flex flex-col justify-center">
           
@@ -86,6 +528,20 @@ export default function App() {
                 </p>
               </div>
 
+              {sharedTemplate && (
+                <div className="mb-6 flex items-center gap-3 bg-indigo-500/10 border border-indigo-500/30 text-indigo-100 rounded-2xl px-5 py-4 animate-in fade-in">
+                  <Link2 className="w-5 h-5 text-indigo-400 shrink-0" />
+                  <p className="flex-1 text-sm">Loaded the shared template <span className="font-medium text-white">{sharedTemplate.name}</span>.</p>
+                  <Button variant="ghost" className="!px-3 !py-1.5 text-sm" onClick={() => handleSaveTemplate(sharedTemplate)}>
+                    <BookmarkPlus className="w-4 h-4" />
+                    Save to gallery
+                  </Button>
+                  <button onClick={() => setSharedTemplate(null)} className="text-indigo-300/70 hover:text-white">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+
               <div className="bg-slate-800/50 backdrop-blur-xl border border-slate-700 rounded-3xl p-8 shadow-2xl space-y-6">
                 
                 <div className="space-y-2">
@@ -120,13 +576,13 @@ export default function App() {
                   <div className="space-y-2">
                     <label className="flex items-center gap-2 text-sm font-medium text-slate-300 ml-1">
                       <Clock className="w-4 h-4 text-emerald-400" />
-                      Duration
+                      Duration (minutes)
                     </label>
-                    <div className="grid grid-cols-3 gap-2 bg-slate-900/50 p-1.5 rounded-2xl border border-slate-700">
-                      {['Short', 'Medium', 'Long'].map((d) => (
+                    <div className="grid grid-cols-5 gap-2 bg-slate-900/50 p-1.5 rounded-2xl border border-slate-700">
+                      {DURATION_PRESETS.map((d) => (
                         <button
                           key={d}
-                          onClick={() => setParams({...params, duration: d})}
+                          onClick={() => updateDefaults({ duration: d })}
                           className={`py-2.5 rounded-xl text-sm font-medium transition-all ${
                             params.duration === d 
                               ? 'bg-indigo-600 text-white shadow-lg' 
@@ -136,19 +592,118 @@ export default function App() {
                           {d}
                         </button>
                       ))}
+                      <input
+                        type="number"
+                        min={MIN_DURATION_MINUTES}
+                        max={MAX_DURATION_MINUTES}
+                        aria-label="Custom duration in minutes"
+                        value={params.duration}
+                        onChange={(e) => {
+                          const minutes = Math.round(Number(e.target.value));
+                          if (!minutes) return;
+                          updateDefaults({ duration: Math.min(MAX_DURATION_MINUTES, Math.max(MIN_DURATION_MINUTES, minutes)) });
+                        }}
+                        className={`w-full min-w-0 rounded-xl text-sm font-medium text-center bg-transparent focus:outline-none focus:ring-1 focus:ring-indigo-500 ${
+                          DURATION_PRESETS.includes(params.duration) ? 'text-slate-400' : 'bg-indigo-600 text-white'
+                        }`}
+                      />
                     </div>
                   </div>
                 </div>
 
-                <div className="pt-4">
+                <VoicePicker
+                  value={{ voice: params.voice, pace: params.pace, language: params.language }}
+                  onChange={updateDefaults}
+                />
+
+                <div className="space-y-2">
+                  <label className="flex items-center gap-2 text-sm font-medium text-slate-300 ml-1">
+                    <Palette className="w-4 h-4 text-amber-400" />
+                    Style <span className="text-slate-500 font-normal">(optional)</span>
+                  </label>
+                  <input
+                    type="text"
+                    placeholder="e.g., Warm and poetic, forest imagery, few words"
+                    className="w-full bg-slate-900/50 border border-slate-700 rounded-2xl px-6 py-3 text-white placeholder-slate-600 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-all"
+                    value={params.style ?? ''}
+                    onChange={(e) => setParams({...params, style: e.target.value || undefined})}
+                  />
+                </div>
+
+                <ImageReusePicker value={reuseImage} onChange={setReuseImage} />
+
+                <div className="flex flex-wrap gap-x-6 gap-y-3">
+                  <label className="flex items-center gap-3 text-sm text-slate-400 ml-1 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={reviewScript}
+                      onChange={(e) => {
+                        setReviewScript(e.target.checked);
+                        savePreference('reviewScript', e.target.checked);
+                      }}
+                      className="accent-indigo-500"
+                    />
+                    <PenLine className="w-4 h-4" />
+                    Review and edit the script before it's voiced
+                  </label>
+                  <label
+                    className="flex items-center gap-3 text-sm text-slate-400 ml-1 cursor-pointer"
+                    title="Sessions you've asked for before are reused from this device unless this is ticked"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={forceFresh}
+                      onChange={(e) => setForceFresh(e.target.checked)}
+                      className="accent-indigo-500"
+                    />
+                    <RefreshCcw className="w-4 h-4" />
+                    Force fresh
+                  </label>
+                </div>
+
+                <div className="pt-4 space-y-3">
                   <Button 
                     className="w-full text-lg py-4" 
-                    onClick={handleGenerate}
+                    onClick={() => handleGenerate()}
                     disabled={!params.mood || !params.focus}
                   >
                     <Music className="w-5 h-5" />
                     Generate Session
                   </Button>
+
+                  {templateName === null ? (
+                    <button
+                      onClick={() => setTemplateName(params.focus)}
+                      disabled={!params.mood || !params.focus}
+                      className="w-full flex items-center justify-center gap-2 text-sm text-slate-400 hover:text-white disabled:opacity-40 disabled:hover:text-slate-400 transition-colors"
+                    >
+                      <BookmarkPlus className="w-4 h-4" />
+                      {templateSaved ? 'Saved to your gallery' : 'Save as template'}
+                    </button>
+                  ) : (
+                    <form
+                      className="flex gap-2"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        if (!templateName.trim()) return;
+                        handleSaveTemplate(createTemplate(templateName, params, loadPreference('ambient', DEFAULT_AMBIENT_LEVELS)));
+                      }}
+                    >
+                      <input
+                        autoFocus
+                        type="text"
+                        maxLength={80}
+                        placeholder="Template name"
+                        className="flex-1 min-w-0 bg-slate-900/50 border border-slate-700 rounded-full px-5 py-2 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-indigo-500"
+                        value={templateName}
+                        onChange={(e) => setTemplateName(e.target.value)}
+                      />
+                      <Button type="submit" variant="secondary" className="!px-4 !py-2 text-sm" disabled={!templateName.trim()}>Save</Button>
+                      <Button type="button" variant="ghost" className="!px-3 !py-2" onClick={() => setTemplateName(null)}>
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </form>
+                  )}
                 </div>
               </div>
             </div>
@@ -158,25 +713,95 @@ export default function App() {
             <div className="flex flex-col items-center justify-center text-center animate-in zoom-in duration-500">
               <div className="relative w-24 h-24 mb-8">
                 <div className="absolute inset-0 border-4 border-indigo-500/30 rounded-full"></div>
-                <div className="absolute inset-0 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
+                {isWorking && <div className="absolute inset-0 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>}
                 <div className="absolute inset-0 flex items-center justify-center">
-                  <Wind className="w-8 h-8 text-indigo-400 animate-pulse" />
+                  <Wind className={`w-8 h-8 text-indigo-400 ${isWorking ? 'animate-pulse' : ''}`} />
                 </div>
               </div>
-              <h3 className="text-2xl font-light text-white mb-2">Crafting your experience</h3>
-              <p className="text-slate-400 animate-pulse">{loadingStep}</p>
+              <h3 className="text-2xl font-light text-white mb-6">{session?.title || 'Crafting your experience'}</h3>
+              {steps ? (
+                <>
+                  <GenerationProgress steps={steps} onRetry={handleRetry} />
+                  <div className="flex gap-3 mt-6">
+                    {!isWorking && steps.script.status === 'done' && (
+                      <Button variant="secondary" onClick={() => setView(AppView.PLAYER)}>
+                        <BookOpen className="w-4 h-4" />
+                        Read the script
+                      </Button>
+                    )}
+                    <Button variant="ghost" onClick={handleCancel}>
+                      {isWorking ? <X className="w-4 h-4" /> : <ArrowLeft className="w-4 h-4" />}
+                      {isWorking ? 'Cancel' : 'Back'}
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <p className="text-slate-400 animate-pulse">{loadingStep}</p>
+              )}
+              {session?.script && (
+                <p className="mt-8 max-w-xl h-24 overflow-hidden flex flex-col justify-end text-sm leading-relaxed text-slate-500 italic whitespace-pre-line [mask-image:linear-gradient(to_bottom,transparent,black)]">
+                  {stripPauseMarkers(session.script.split('\n').slice(-4).join('\n'))}
+                </p>
+              )}
             </div>
           )}
 
+          {view === AppView.PLAYER && session && steps && (
+            <GenerationProgress compact steps={steps} onRetry={handleRetry} />
+          )}
+
           {view === AppView.PLAYER && session && (
             <MeditationPlayer 
               session={session} 
-              onReset={() => setView(AppView.HOME)} 
+              onReset={() => setView(session.timer ? AppView.TIMER : session.params?.course ? AppView.COURSES : AppView.HOME)} 
+              autoPlay={!!session.live}
+              onPositionChange={(seconds) => { playbackPositionRef.current = seconds; }}
+              onInsertBreathing={handleInsertBreathing}
+              onComplete={handleSessionComplete}
+              onMoodAfter={handleMoodAfter}
+              onEditScript={session.timer ? undefined : () => setView(AppView.EDITOR)}
+            />
+          )}
+
+          {view === AppView.EDITOR && session && (
+            <ScriptEditor
+              title={session.title}
+              script={session.script}
+              settings={session.params ?? params}
+              onVoice={handleVoiceScript}
+              onCancel={() => (session.audioBuffer ? setView(AppView.PLAYER) : handleCancel())}
+            />
+          )}
+
+          {view === AppView.BREATHING && <BreathingExercise />}
+
+          {view === AppView.TIMER && <TimerSetup onStart={handleStartTimer} />}
+
+          {view === AppView.COURSES && (
+            <CourseList params={params} selectedId={courseId} onSelect={setCourseId} onOpenDay={handleOpenCourseDay} />
+          )}
+
+          {view === AppView.GALLERY && (
+            <TemplateGallery onUse={handleUseTemplate} onGenerate={handleGenerateTemplate} />
+          )}
+
+          {view === AppView.PROFILE && <Profile onCreate={() => setView(AppView.HOME)} />}
+
+          {view === AppView.LIBRARY && (
+            <SessionLibrary
+              onOpen={handleOpenSaved}
+              onCreate={() => setView(AppView.HOME)}
+              onImport={handleImport}
             />
           )}
         </main>
 
-        <ChatWidget />
+        <ChatWidget
+          session={view === AppView.PLAYER ? session : null}
+          getPosition={() => playbackPositionRef.current}
+          onCreateSession={handleTailoredSession}
+        />
+        <ImportDropZone onFiles={handleImport} />
       </div>
     </div>
   );
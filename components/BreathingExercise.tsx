@@ -0,0 +1,225 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Play, Square, Bell, Mic2, BellOff } from 'lucide-react';
+import Button from './Button';
+import BreathingPatternPicker from './BreathingPatternPicker';
+import { getBreathingPrompts } from '../services/meditation';
+import { getAudioContext } from '../utils/audio';
+import {
+  BreathingChoice, BreathStep, DEFAULT_BREATHING_CHOICE, PHASE_LABELS, CUE_LEAD_SECONDS,
+  breathingTimeline, choiceTiming, findBreathStep, renderBreathingCues,
+} from '../utils/breathing';
+import { DEFAULT_VOICE_SETTINGS } from '../utils/voices';
+import { loadPreference, savePreference } from '../utils/storage';
+import { VoiceSettings } from '../types';
+
+type CueMode = 'tones' | 'voice' | 'silent';
+
+const CUE_MODES: { id: CueMode; label: string; icon: typeof Bell }[] = [
+  { id: 'tones', label: 'Tones', icon: Bell },
+  { id: 'voice', label: 'Voice', icon: Mic2 },
+  { id: 'silent', label: 'Silent', icon: BellOff },
+];
+
+// Time to settle in before the first breath
+const COUNTDOWN_SECONDS = 3;
+
+// Size of the pacer between empty and full lungs
+const MIN_SCALE = 0.45;
+
+interface Frame {
+  step: BreathStep | null; // null during the countdown
+  elapsed: number; // seconds since the first breath (negative while counting down)
+  progress: number; // 0-1 through the current step
+}
+
+const scaleFor = ({ step, progress }: Frame): number => {
+  if (!step) return MIN_SCALE;
+  // Ease in and out so the pacer moves like a breath
+  const eased = (1 - Math.cos(Math.PI * progress)) / 2;
+  switch (step.phase) {
+    case 'inhale': return MIN_SCALE + (1 - MIN_SCALE) * eased;
+    case 'hold-in': return 1;
+    case 'exhale': return 1 - (1 - MIN_SCALE) * eased;
+    default: return MIN_SCALE;
+  }
+};
+
+const BreathingExercise: React.FC = () => {
+  const [choice, setChoice] = useState<BreathingChoice>(() => loadPreference('breathing', DEFAULT_BREATHING_CHOICE));
+  const [cueMode, setCueMode] = useState<CueMode>(() => loadPreference<CueMode>('breathingCues', 'tones'));
+  const [state, setState] = useState<'idle' | 'loading' | 'running' | 'done'>('idle');
+  const [frame, setFrame] = useState<Frame>({ step: null, elapsed: -COUNTDOWN_SECONDS, progress: 0 });
+  const [error, setError] = useState('');
+  const sourcesRef = useRef<AudioBufferSourceNode[]>([]);
+  const animationFrameRef = useRef(0);
+  // Bumped on every stop so a start that finishes loading late is discarded
+  const runRef = useRef(0);
+
+  const updateChoice = (next: BreathingChoice) => {
+    setChoice(next);
+    savePreference('breathing', next);
+  };
+
+  const updateCueMode = (next: CueMode) => {
+    setCueMode(next);
+    savePreference('breathingCues', next);
+  };
+
+  const stopSound = () => {
+    sourcesRef.current.forEach((source) => {
+      try {
+        source.stop();
+      } catch (e) {
+        // not started or already finished
+      }
+    });
+    sourcesRef.current = [];
+    cancelAnimationFrame(animationFrameRef.current);
+  };
+
+  const stop = () => {
+    runRef.current++;
+    stopSound();
+    setState('idle');
+  };
+
+  useEffect(() => () => {
+    runRef.current++;
+    stopSound();
+  }, []);
+
+  const start = async () => {
+    const run = ++runRef.current;
+    const ctx = getAudioContext();
+    if (ctx.state === 'suspended') ctx.resume();
+    setError('');
+
+    const timing = choiceTiming(choice);
+    const steps = breathingTimeline(timing, choice.rounds);
+    const total = steps.length ? steps[steps.length - 1].start + steps[steps.length - 1].seconds : 0;
+
+    let prompts = null;
+    if (cueMode === 'voice') {
+      setState('loading');
+      try {
+        const voice = loadPreference<VoiceSettings>('generationDefaults', DEFAULT_VOICE_SETTINGS);
+        prompts = await getBreathingPrompts(voice);
+      } catch (e) {
+        console.error("Breathing prompts failed:", e);
+        if (run !== runRef.current) return;
+        // Carry on with tones rather than not at all
+        setError('Voice prompts are unavailable right now, so tones will guide you instead.');
+      }
+      if (run !== runRef.current) return;
+    }
+
+    // Everything is scheduled up front on the audio clock, so cues stay on the beat
+    const startAt = ctx.currentTime + COUNTDOWN_SECONDS;
+    const play = (buffer: AudioBuffer, when: number) => {
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+      source.start(Math.max(ctx.currentTime, when));
+      sourcesRef.current.push(source);
+    };
+    if (prompts) {
+      steps.forEach((step) => play(prompts[step.phase], startAt + step.start));
+    } else if (cueMode !== 'silent') {
+      play(renderBreathingCues(ctx, timing, choice.rounds), startAt - CUE_LEAD_SECONDS);
+    }
+
+    setState('running');
+    const tick = () => {
+      const elapsed = ctx.currentTime - startAt;
+      if (elapsed >= total) {
+        sourcesRef.current = [];
+        setState('done');
+        return;
+      }
+      const index = elapsed < 0 ? -1 : findBreathStep(steps, elapsed);
+      const step = index >= 0 ? steps[index] : null;
+      setFrame({ step, elapsed, progress: step ? (elapsed - step.start) / step.seconds : 0 });
+      animationFrameRef.current = requestAnimationFrame(tick);
+    };
+    tick();
+  };
+
+  const isActive = state === 'running';
+  const { step, elapsed } = frame;
+  const remaining = step ? Math.ceil(step.start + step.seconds - elapsed) : Math.ceil(-elapsed);
+
+  return (
+    <div className="max-w-3xl mx-auto w-full animate-in slide-in-from-bottom-10 fade-in duration-700">
+      <div className="text-center mb-10">
+        <h2 className="text-4xl md:text-5xl font-light tracking-tight mb-4 bg-clip-text text-transparent bg-gradient-to-b from-white to-slate-400">
+          Breathe with the light
+        </h2>
+        <p className="text-lg text-slate-400 font-light">Follow the circle as it grows and softens.</p>
+      </div>
+
+      <div className="flex flex-col items-center gap-8">
+        {/* Pacer */}
+        <div className="relative w-72 h-72 flex items-center justify-center">
+          <div
+            className="absolute inset-0 rounded-full bg-gradient-to-br from-indigo-500/40 to-purple-500/40 blur-2xl"
+            style={{ transform: `scale(${isActive ? scaleFor(frame) : MIN_SCALE})` }}
+          />
+          <div
+            className="absolute inset-0 rounded-full border border-indigo-300/40 bg-indigo-500/20 shadow-[0_0_60px_rgba(129,140,248,0.35)]"
+            style={{ transform: `scale(${isActive ? scaleFor(frame) : MIN_SCALE})` }}
+          />
+          <div className="relative text-center" aria-live="polite">
+            {isActive ? (
+              <>
+                <p className="text-2xl font-light text-white">{step ? PHASE_LABELS[step.phase] : 'Get ready'}</p>
+                <p className="text-4xl font-extralight text-white/80 tabular-nums">{remaining}</p>
+              </>
+            ) : (
+              <p className="text-lg font-light text-white/70">{state === 'done' ? 'Well done' : state === 'loading' ? 'Preparing...' : 'Ready'}</p>
+            )}
+          </div>
+        </div>
+        {isActive && step && (
+          <p className="text-sm text-slate-400 tabular-nums">Round {step.round + 1} of {choice.rounds}</p>
+        )}
+
+        {!isActive && (
+          <div className="w-full bg-slate-800/50 backdrop-blur-xl border border-slate-700 p-8 rounded-3xl shadow-2xl space-y-6">
+            <BreathingPatternPicker value={choice} onChange={updateChoice} />
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-slate-300 mr-2">Cues</span>
+              {CUE_MODES.map(({ id, label, icon: Icon }) => (
+                <button
+                  key={id}
+                  onClick={() => updateCueMode(id)}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm border transition-all ${
+                    cueMode === id ? 'bg-indigo-500/20 border-indigo-500 text-white' : 'border-slate-700 text-slate-400 hover:text-white'
+                  }`}
+                >
+                  <Icon className="w-4 h-4" />
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-amber-300">{error}</p>}
+
+        {isActive || state === 'loading' ? (
+          <Button variant="secondary" onClick={stop}>
+            <Square className="w-4 h-4" fill="currentColor" />
+            Stop
+          </Button>
+        ) : (
+          <Button onClick={start}>
+            <Play className="w-4 h-4" fill="currentColor" />
+            {state === 'done' ? 'Go again' : 'Begin'}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BreathingExercise;
\ No newline at end of file
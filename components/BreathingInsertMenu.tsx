@@ -0,0 +1,63 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Wind } from 'lucide-react';
+import Button from './Button';
+import BreathingPatternPicker from './BreathingPatternPicker';
+import { BreathingChoice, DEFAULT_BREATHING_CHOICE, choiceSpec } from '../utils/breathing';
+import { loadPreference, savePreference } from '../utils/storage';
+
+interface Props {
+  onInsert: (spec: string, rounds: number) => void;
+  disabled?: boolean; // e.g. while the audio is still being generated
+}
+
+// Adds a breathing exercise after the passage that is playing
+const BreathingInsertMenu: React.FC<Props> = ({ onInsert, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [choice, setChoice] = useState<BreathingChoice>(() => loadPreference('breathing', DEFAULT_BREATHING_CHOICE));
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const updateChoice = (next: BreathingChoice) => {
+    setChoice(next);
+    savePreference('breathing', next);
+  };
+
+  const handleInsert = () => {
+    setIsOpen(false);
+    onInsert(choiceSpec(choice), choice.rounds);
+  };
+
+  return (
+    <div ref={menuRef} className="relative flex-1">
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 right-0 w-80 bg-slate-900/95 backdrop-blur-xl border border-slate-700 rounded-2xl shadow-2xl p-4 space-y-4 z-20 animate-in fade-in slide-in-from-bottom-2">
+          <BreathingPatternPicker compact value={choice} onChange={updateChoice} />
+          <Button className="w-full !py-2 text-sm" onClick={handleInsert}>
+            Insert after this passage
+          </Button>
+        </div>
+      )}
+      <Button
+        variant="ghost"
+        className="w-full border border-slate-700"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        title={disabled ? 'Available once the audio is complete' : 'Add a breathing exercise'}
+      >
+        <Wind className="w-4 h-4" />
+        Breathing
+      </Button>
+    </div>
+  );
+};
+
+export default BreathingInsertMenu;
\ No newline at end of file
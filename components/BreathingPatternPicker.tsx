@@ -0,0 +1,89 @@
+import React from 'react';
+import {
+  BREATHING_PATTERNS, BreathingChoice, BreathPhase, PHASE_ORDER, MAX_PHASE_SECONDS, MAX_ROUNDS,
+  choiceTiming, cycleSeconds,
+} from '../utils/breathing';
+import { formatTime } from '../utils/format';
+
+interface Props {
+  value: BreathingChoice;
+  onChange: (value: BreathingChoice) => void;
+  compact?: boolean; // smaller layout for menus
+}
+
+const CUSTOM_LABELS: Record<BreathPhase, string> = {
+  'inhale': 'In',
+  'hold-in': 'Hold',
+  'exhale': 'Out',
+  'hold-out': 'Hold',
+};
+
+const BreathingPatternPicker: React.FC<Props> = ({ value, onChange, compact }) => {
+  const options = [
+    ...BREATHING_PATTERNS.map(({ id, name, description }) => ({ id, name, description })),
+    { id: 'custom', name: 'Custom', description: 'Your own counts' },
+  ];
+  const timing = choiceTiming(value);
+  const total = cycleSeconds(timing) * value.rounds;
+
+  const setCustom = (phase: BreathPhase, seconds: number) => {
+    const clamped = Math.min(MAX_PHASE_SECONDS, Math.max(0, Math.round(seconds) || 0));
+    const custom = { ...value.custom, [phase]: clamped };
+    // Keep at least one phase with some length
+    if (cycleSeconds(custom) > 0) onChange({ ...value, custom });
+  };
+
+  return (
+    <div className={compact ? 'space-y-3' : 'space-y-5'}>
+      <div className={`grid grid-cols-2 ${compact ? 'gap-2' : 'md:grid-cols-4 gap-3'}`}>
+        {options.map(({ id, name, description }) => (
+          <button
+            key={id}
+            onClick={() => onChange({ ...value, patternId: id })}
+            className={`text-left rounded-2xl border transition-all ${compact ? 'px-3 py-2' : 'px-4 py-3'} ${
+              value.patternId === id
+                ? 'bg-indigo-500/20 border-indigo-500 text-white'
+                : 'bg-slate-900/50 border-slate-700 text-slate-300 hover:border-slate-500'
+            }`}
+          >
+            <p className="text-sm font-medium">{name}</p>
+            {!compact && <p className="text-xs text-slate-400 mt-1">{description}</p>}
+          </button>
+        ))}
+      </div>
+
+      {value.patternId === 'custom' && (
+        <div className="grid grid-cols-4 gap-2">
+          {PHASE_ORDER.map((phase) => (
+            <label key={phase} className="flex flex-col gap-1 text-xs text-slate-400">
+              {CUSTOM_LABELS[phase]}
+              <input
+                type="number"
+                min={0}
+                max={MAX_PHASE_SECONDS}
+                value={value.custom[phase]}
+                onChange={(e) => setCustom(phase, Number(e.target.value))}
+                className="w-full bg-slate-900/50 border border-slate-700 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <label className="flex items-center gap-3 text-sm text-slate-300">
+        <span className="shrink-0">Rounds</span>
+        <input
+          type="range"
+          min={1}
+          max={MAX_ROUNDS}
+          value={value.rounds}
+          onChange={(e) => onChange({ ...value, rounds: Number(e.target.value) })}
+          className="flex-1 accent-indigo-500"
+        />
+        <span className="w-20 text-right tabular-nums text-slate-400">{value.rounds} · {formatTime(total)}</span>
+      </label>
+    </div>
+  );
+};
+
+export default BreathingPatternPicker;
\ No newline at end of file
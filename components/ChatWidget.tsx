@@ -1,16 +1,59 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { MessageCircle, X, Send, Sparkles } from 'lucide-react';
-import { ChatMessage } from '../types';
-import { sendMessageToGuide } from '../services/gemini';
+import { MessageCircle, X, Send, Sparkles, Headphones, Wand2, History, MessageSquarePlus, Eraser, Trash2, Square, Copy, Check, RefreshCw, Mic, Volume2, VolumeX } from 'lucide-react';
+import { ChatMessage, ChatThread, MeditationSession, SessionRequest, VoiceSettings } from '../types';
+import { sendMessageToGuide, planSessionFromChat, openGuideThread, compactGuideThread, transcribeGuideMessage, speakGuideReply, GuideContext } from '../services/meditation';
+import { createThread, saveThread, listThreads, deleteThread } from '../services/chatHistory';
+import { toGenerationError } from '../services/errors';
+import Markdown from './Markdown';
+import { getAudioContext, playOverProgram } from '../utils/audio';
+import { startRecording, Recording } from '../utils/recorder';
+import { DEFAULT_VOICE_SETTINGS } from '../utils/voices';
+import { loadPreference, savePreference } from '../utils/storage';
+import { formatDate } from '../utils/format';
 
-const ChatWidget: React.FC = () => {
+interface Props {
+  session: MeditationSession | null; // the one being listened to, if any
+  getPosition: () => number; // playback position of `session`, in seconds
+  onCreateSession: (request: SessionRequest) => void;
+}
+
+const GREETING = 'Namaste. How can I support your journey today?';
+
+// Shorter presses are taken as a tap, not speech
+const MIN_RECORDING_MS = 400;
+
+const ChatWidget: React.FC<Props> = ({ session, getPosition, onCreateSession }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [input, setInput] = useState('');
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    { role: 'model', text: 'Namaste. How can I support your journey today?', timestamp: new Date() }
-  ]);
+  const [thread, setThread] = useState<ChatThread>(createThread);
+  // Latest thread, for replies that arrive after other updates
+  const threadRef = useRef(thread);
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [showThreads, setShowThreads] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
+  // The reply being written, shown until it is complete
+  const [streamingText, setStreamingText] = useState('');
+  // A reply that failed; shown under its question but never saved to the thread
+  const [replyError, setReplyError] = useState<{ threadId: string; message: string } | null>(null);
+  const replyRef = useRef<AbortController | null>(null);
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [voiceState, setVoiceState] = useState<'idle' | 'recording' | 'transcribing'>('idle');
+  const [voiceError, setVoiceError] = useState('');
+  const recordingRef = useRef<Recording | null>(null);
+  const recordingStartRef = useRef(0);
+  const pressedRef = useRef(false);
+  const [speakReplies, setSpeakReplies] = useState(() => loadPreference('guideSpeaks', false));
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const speechRef = useRef<{ controller: AbortController; stop?: () => void } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const isBusy = isTyping || isPlanning;
+
+  // The greeting is shown on every thread but never stored or sent
+  const messages: ChatMessage[] = [
+    { role: 'model', text: GREETING, timestamp: new Date(thread.createdAt) },
+    ...thread.messages,
+  ];
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -18,27 +61,278 @@ const ChatWidget: React.FC = () => {
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages, isOpen]);
+  }, [thread.messages, streamingText, isOpen, showThreads]);
 
-  const handleSend = async () => {
-    if (!input.trim() || isTyping) return;
+  const openThread = (next: ChatThread) => {
+    stopSpeaking();
+    threadRef.current = next;
+    setThread(next);
+    openGuideThread(next);
+    savePreference('chatThread', next.id);
+  };
 
-    const userMsg: ChatMessage = { role: 'user', text: input, timestamp: new Date() };
-    setMessages(prev => [...prev, userMsg]);
-    setInput('');
+  // Reopen the last conversation, unless one has already started
+  useEffect(() => {
+    openGuideThread(threadRef.current);
+    listThreads()
+      .then((saved) => {
+        setThreads(saved);
+        const last = saved.find((t) => t.id === loadPreference<string | null>('chatThread', null));
+        if (last && !threadRef.current.messages.length) openThread(last);
+      })
+      .catch((error) => console.error("Loading chat history failed:", error));
+  }, []);
+
+  // Shows and saves a thread. Saving is best-effort; the chat works without it.
+  const commitThread = async (next: ChatThread) => {
+    if (next.id === threadRef.current.id) {
+      threadRef.current = next;
+      setThread(next);
+    }
+    try {
+      const saved = await saveThread(next);
+      setThreads((current) => [saved, ...current.filter((t) => t.id !== saved.id)]);
+    } catch (error) {
+      console.error("Saving chat failed:", error);
+    }
+  };
+
+  const appendMessage = (message: ChatMessage) =>
+    commitThread({ ...threadRef.current, messages: [...threadRef.current.messages, message] });
+
+  const handleNewThread = () => {
+    openThread(createThread());
+    setShowThreads(false);
+  };
+
+  const handleClear = () => {
+    if (!thread.messages.length) return;
+    if (!window.confirm('Clear this conversation? This cannot be undone.')) return;
+    const cleared = { ...thread, messages: [], summary: undefined, summarizedCount: 0 };
+    openThread(cleared);
+    commitThread(cleared);
+  };
+
+  const handleDeleteThread = async (target: ChatThread) => {
+    if (!window.confirm(`Delete "${target.title}"? This cannot be undone.`)) return;
+    try {
+      await deleteThread(target.id);
+      setThreads((current) => current.filter((t) => t.id !== target.id));
+      if (target.id === threadRef.current.id) openThread(createThread());
+    } catch (error) {
+      console.error("Deleting chat failed:", error);
+    }
+  };
+
+  const getContext = (): GuideContext | undefined =>
+    session ? { session, position: getPosition() } : undefined;
+
+  // The guide speaks with the voice of the session being played, or the one last chosen on HOME
+  const getGuideVoice = (): VoiceSettings =>
+    session?.params ?? loadPreference<VoiceSettings>('generationDefaults', DEFAULT_VOICE_SETTINGS);
+
+  const stopSpeaking = () => {
+    speechRef.current?.controller.abort();
+    speechRef.current?.stop?.();
+    speechRef.current = null;
+    setIsSpeaking(false);
+  };
+
+  // Reads a reply aloud over the meditation, which is ducked meanwhile
+  const speak = async (text: string) => {
+    stopSpeaking();
+    const controller = new AbortController();
+    const speech: { controller: AbortController; stop?: () => void } = { controller };
+    speechRef.current = speech;
+    setIsSpeaking(true);
+    try {
+      const buffer = await speakGuideReply(text, getGuideVoice(), controller.signal);
+      if (controller.signal.aborted) return;
+      const playback = playOverProgram(buffer);
+      speech.stop = playback.stop;
+      await playback.ended;
+    } catch (error) {
+      if (!controller.signal.aborted) console.error("Speaking reply failed:", error);
+    } finally {
+      if (speechRef.current === speech) {
+        speechRef.current = null;
+        setIsSpeaking(false);
+      }
+    }
+  };
+
+  const toggleSpeakReplies = () => {
+    if (speakReplies) stopSpeaking();
+    setSpeakReplies(!speakReplies);
+    savePreference('guideSpeaks', !speakReplies);
+  };
+
+  // Sends `text` as the user's turn and streams the guide's reply into the thread
+  const askGuide = async (text: string) => {
+    stopSpeaking();
+    const controller = new AbortController();
+    replyRef.current = controller;
     setIsTyping(true);
+    setReplyError(null);
 
     try {
-      const responseText = await sendMessageToGuide(userMsg.text);
+      const responseText = await sendMessageToGuide(text, getContext(), {
+        signal: controller.signal,
+        onText: setStreamingText,
+      });
       const modelMsg: ChatMessage = { role: 'model', text: responseText, timestamp: new Date() };
-      setMessages(prev => [...prev, modelMsg]);
+      if (controller.signal.aborted) {
+        // The model never finished this turn; keep what was written and resync it with the thread
+        if (responseText) await appendMessage(modelMsg);
+        openGuideThread(threadRef.current);
+        return;
+      }
+      await appendMessage(modelMsg);
+      if (speakReplies) speak(responseText);
+      try {
+        const compacted = await compactGuideThread(threadRef.current);
+        if (compacted !== threadRef.current) await commitThread(compacted);
+      } catch (error) {
+        // Carry on with the full history; we'll try again after the next reply
+        console.error("Summarizing chat failed:", error);
+      }
     } catch (error) {
       console.error("Chat error", error);
+      setReplyError({ threadId: threadRef.current.id, message: toGenerationError(error).message });
+      // Whether the question reached the guide is unknown; match it to the thread again
+      openGuideThread(threadRef.current);
     } finally {
+      replyRef.current = null;
+      setStreamingText('');
       setIsTyping(false);
     }
   };
 
+  const sendText = (text: string) => {
+    appendMessage({ role: 'user', text, timestamp: new Date() });
+    askGuide(text);
+  };
+
+  const handleSend = () => {
+    if (!input.trim() || isBusy) return;
+    sendText(input);
+    setInput('');
+  };
+
+  const handleStop = () => {
+    replyRef.current?.abort();
+    stopSpeaking();
+  };
+
+  // Push-to-talk: record while the mic button is held, then send what was said
+  const startTalking = async () => {
+    if (isBusy || voiceState !== 'idle') return;
+    pressedRef.current = true;
+    stopSpeaking();
+    setVoiceError('');
+    setVoiceState('recording');
+    try {
+      const recording = await startRecording();
+      // Released while the browser was still asking for the microphone
+      if (!pressedRef.current) {
+        recording.cancel();
+        setVoiceState('idle');
+        return;
+      }
+      recordingRef.current = recording;
+      recordingStartRef.current = Date.now();
+    } catch (error) {
+      console.error("Microphone unavailable:", error);
+      setVoiceError('The microphone is unavailable. Check your browser permissions.');
+      setVoiceState('idle');
+    }
+  };
+
+  const stopTalking = async () => {
+    pressedRef.current = false;
+    const recording = recordingRef.current;
+    recordingRef.current = null;
+    if (!recording) return;
+
+    if (Date.now() - recordingStartRef.current < MIN_RECORDING_MS) {
+      recording.cancel();
+      setVoiceState('idle');
+      setVoiceError('Hold the microphone button while you speak.');
+      return;
+    }
+
+    setVoiceState('transcribing');
+    try {
+      const text = await transcribeGuideMessage(await recording.stop(), getGuideVoice().language);
+      if (text) sendText(text);
+      else setVoiceError("I didn't catch that. Please try again.");
+    } catch (error) {
+      console.error("Transcription failed:", error);
+      setVoiceError("I couldn't understand the recording. Please try again.");
+    } finally {
+      setVoiceState('idle');
+    }
+  };
+
+  // Only the latest reply can be regenerated, and only while its question is still verbatim
+  const lastUserIndex = thread.messages.map((m) => m.role).lastIndexOf('user');
+  const canRegenerate = lastUserIndex >= thread.summarizedCount && thread.messages[thread.messages.length - 1]?.role === 'model';
+
+  const handleRegenerate = () => {
+    if (isBusy || !canRegenerate) return;
+    const { messages: current } = threadRef.current;
+    // The guide forgets its last answer, then hears the question again
+    openGuideThread({ ...threadRef.current, messages: current.slice(0, lastUserIndex) });
+    commitThread({ ...threadRef.current, messages: current.slice(0, lastUserIndex + 1) });
+    askGuide(current[lastUserIndex].text);
+  };
+
+  // Asks the unanswered question again after a failed reply
+  const handleRetry = () => {
+    if (isBusy || lastUserIndex < 0) return;
+    const { messages: current } = threadRef.current;
+    openGuideThread({ ...threadRef.current, messages: current.slice(0, lastUserIndex) });
+    askGuide(current[lastUserIndex].text);
+  };
+
+  const handleCopy = async (text: string, index: number) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopiedIndex(index);
+      setTimeout(() => setCopiedIndex((current) => (current === index ? null : current)), 1500);
+    } catch (error) {
+      console.error("Copy failed:", error);
+    }
+  };
+
+  const handleCreateSession = async () => {
+    if (isBusy) return;
+    // Unlock audio while we still have the click, so the new session can start on its own
+    getAudioContext().resume();
+    setIsPlanning(true);
+    try {
+      const request = await planSessionFromChat(thread.messages, getContext());
+      appendMessage({
+        role: 'model',
+        text: `Let's make space for that. I'm preparing a session on "${request.focus}" for you now.`,
+        timestamp: new Date(),
+      });
+      setIsOpen(false);
+      onCreateSession(request);
+    } catch (error) {
+      console.error("Session planning failed", error);
+      appendMessage({
+        role: 'model',
+        text: "I couldn't shape a session from our conversation just now. Please try again in a moment.",
+        timestamp: new Date(),
+      });
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const hasUserMessage = thread.messages.some((m) => m.role === 'user');
+
   return (
     <div className="fixed bottom-6 right-6 z-50 flex flex-col items-end">
       {/* Chat Window */}
@@ -50,57 +344,199 @@ const ChatWidget: React.FC = () => {
               <Sparkles className="w-5 h-5 text-indigo-100" />
               <h3 className="font-semibold text-white">Zen Guide</h3>
             </div>
-            <button onClick={() => setIsOpen(false)} className="text-white/80 hover:text-white">
-              <X className="w-5 h-5" />
-            </button>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => setShowThreads(!showThreads)}
+                disabled={isBusy}
+                title="Past conversations"
+                className={`hover:text-white disabled:opacity-50 ${showThreads ? 'text-white' : 'text-white/80'}`}
+              >
+                <History className="w-4 h-4" />
+              </button>
+              <button onClick={handleNewThread} disabled={isBusy} title="New conversation" className="text-white/80 hover:text-white disabled:opacity-50">
+                <MessageSquarePlus className="w-4 h-4" />
+              </button>
+              <button
+                onClick={toggleSpeakReplies}
+                title={speakReplies ? 'Stop reading replies aloud' : 'Read replies aloud'}
+                className={`hover:text-white ${speakReplies ? 'text-white' : 'text-white/80'} ${isSpeaking ? 'animate-pulse' : ''}`}
+              >
+                {speakReplies ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
+              </button>
+              <button onClick={handleClear} disabled={isBusy || !thread.messages.length} title="Clear this conversation" className="text-white/80 hover:text-white disabled:opacity-50">
+                <Eraser className="w-4 h-4" />
+              </button>
+              <button onClick={() => setIsOpen(false)} className="text-white/80 hover:text-white">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
           </div>
 
-          {/* Messages */}
-          <div className="flex-1 overflow-y-auto p-4 space-y-4">
-            {messages.map((msg, idx) => (
-              <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                <div 
-                  className={`max-w-[85%] rounded-2xl px-4 py-2.5 text-sm leading-relaxed ${
-                    msg.role === 'user' 
-                      ? 'bg-indigo-600 text-white rounded-tr-none' 
-                      : 'bg-slate-800/80 text-slate-200 rounded-tl-none border border-slate-700'
-                  }`}
+          {session && (
+            <div className="px-4 py-2 bg-slate-800/60 border-b border-slate-800 flex items-center gap-2 text-xs text-slate-400">
+              <Headphones className="w-3.5 h-3.5 text-indigo-400 shrink-0" />
+              <span className="truncate">Listening to <span className="text-slate-200">{session.title}</span></span>
+            </div>
+          )}
+
+          {showThreads ? (
+            <div className="flex-1 overflow-y-auto p-2">
+              {!threads.length && <p className="p-4 text-sm text-slate-500 text-center">No saved conversations yet.</p>}
+              {threads.map((t) => (
+                <div
+                  key={t.id}
+                  className={`group flex items-center gap-2 rounded-xl px-3 py-2.5 ${t.id === thread.id ? 'bg-indigo-500/15' : 'hover:bg-slate-800/60'}`}
                 >
-                  {msg.text}
+                  <button
+                    onClick={() => { openThread(t); setShowThreads(false); }}
+                    className="flex-1 min-w-0 text-left"
+                  >
+                    <p className="text-sm text-slate-200 truncate">{t.title}</p>
+                    <p className="text-xs text-slate-500">{formatDate(t.updatedAt)} · {t.messages.length} messages</p>
+                  </button>
+                  <button
+                    onClick={() => handleDeleteThread(t)}
+                    title="Delete conversation"
+                    className="shrink-0 p-1 text-slate-500 hover:text-rose-400 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
                 </div>
-              </div>
-            ))}
-            {isTyping && (
-              <div className="flex justify-start">
-                <div className="bg-slate-800/50 rounded-2xl rounded-tl-none px-4 py-3 border border-slate-700/50 flex gap-1">
-                  <span className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></span>
-                  <span className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></span>
-                  <span className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></span>
+              ))}
+            </div>
+          ) : (
+            // Messages
+            <div className="flex-1 overflow-y-auto p-4 space-y-4">
+              {messages.map((msg, idx) => (
+                <div key={idx} className={`group flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
+                  <div 
+                    className={`max-w-[85%] rounded-2xl px-4 py-2.5 text-sm leading-relaxed ${
+                      msg.role === 'user' 
+                        ? 'bg-indigo-600 text-white rounded-tr-none whitespace-pre-wrap' 
+                        : 'bg-slate-800/80 text-slate-200 rounded-tl-none border border-slate-700'
+                    }`}
+                  >
+                    {msg.role === 'user' ? msg.text : <Markdown text={msg.text} />}
+                  </div>
+                  {/* The greeting isn't a reply, so it gets no actions */}
+                  {msg.role === 'model' && idx > 0 && (
+                    <div className="mt-1 ml-2 flex gap-3 text-xs text-slate-500 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                      <button onClick={() => handleCopy(msg.text, idx)} className="flex items-center gap-1 hover:text-slate-200">
+                        {copiedIndex === idx ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+                        {copiedIndex === idx ? 'Copied' : 'Copy'}
+                      </button>
+                      {idx === messages.length - 1 && canRegenerate && (
+                        <button onClick={handleRegenerate} disabled={isBusy} className="flex items-center gap-1 hover:text-slate-200 disabled:opacity-50">
+                          <RefreshCw className="w-3.5 h-3.5" />
+                          Regenerate
+                        </button>
+                      )}
+                    </div>
+                  )}
                 </div>
-              </div>
-            )}
-            <div ref={messagesEndRef} />
-          </div>
+              ))}
+              {streamingText && (
+                <div className="flex justify-start">
+                  <div className="max-w-[85%] rounded-2xl px-4 py-2.5 text-sm leading-relaxed bg-slate-800/80 text-slate-200 rounded-tl-none border border-slate-700">
+                    <Markdown text={streamingText} />
+                  </div>
+                </div>
+              )}
+              {replyError?.threadId === thread.id && !isTyping && (
+                <div className="flex flex-col items-start gap-1">
+                  <p className="max-w-[85%] rounded-2xl rounded-tl-none px-4 py-2.5 text-sm bg-rose-500/10 border border-rose-500/30 text-rose-200">
+                    {replyError.message}
+                  </p>
+                  <button onClick={handleRetry} disabled={isBusy} className="ml-2 flex items-center gap-1 text-xs text-slate-400 hover:text-slate-200 disabled:opacity-50">
+                    <RefreshCw className="w-3.5 h-3.5" />
+                    Try again
+                  </button>
+                </div>
+              )}
+              {isTyping && !streamingText && (
+                <div className="flex justify-start">
+                  <div className="bg-slate-800/50 rounded-2xl rounded-tl-none px-4 py-3 border border-slate-700/50 flex gap-1">
+                    <span className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></span>
+                    <span className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></span>
+                    <span className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></span>
+                  </div>
+                </div>
+              )}
+              <div ref={messagesEndRef} />
+            </div>
+          )}
 
           {/* Input */}
           <div className="p-4 bg-slate-900 border-t border-slate-800">
+            {hasUserMessage && (
+              <button
+                onClick={handleCreateSession}
+                disabled={isBusy}
+                className="mb-3 w-full flex items-center justify-center gap-2 text-xs text-indigo-200 hover:text-white bg-indigo-500/10 hover:bg-indigo-500/20 disabled:opacity-50 border border-indigo-500/30 rounded-xl py-2 transition-colors"
+              >
+                {isPlanning ? (
+                  <span className="w-3.5 h-3.5 border-2 border-indigo-400 border-t-transparent rounded-full animate-spin" />
+                ) : (
+                  <Wand2 className="w-3.5 h-3.5" />
+                )}
+                {isPlanning ? 'Shaping your session...' : 'Create a session from our chat'}
+              </button>
+            )}
+            {isSpeaking && (
+              <button
+                onClick={stopSpeaking}
+                className="mb-3 w-full flex items-center justify-center gap-2 text-xs text-slate-300 hover:text-white"
+              >
+                <Volume2 className="w-3.5 h-3.5 text-indigo-400 animate-pulse" />
+                The guide is speaking · Stop
+              </button>
+            )}
             <div className="flex gap-2">
+              <button
+                onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); startTalking(); }}
+                onPointerUp={stopTalking}
+                onPointerCancel={stopTalking}
+                onKeyDown={(e) => { if ((e.key === ' ' || e.key === 'Enter') && !e.repeat) { e.preventDefault(); startTalking(); } }}
+                onKeyUp={(e) => { if (e.key === ' ' || e.key === 'Enter') stopTalking(); }}
+                disabled={isBusy || voiceState === 'transcribing'}
+                title="Hold to talk"
+                className={`p-2 rounded-xl transition-colors touch-none select-none disabled:text-slate-600 ${
+                  voiceState === 'recording' ? 'bg-rose-500 text-white animate-pulse' : 'bg-slate-800 text-slate-300 hover:text-white border border-slate-700'
+                }`}
+              >
+                {voiceState === 'transcribing' ? (
+                  <span className="block w-5 h-5 border-2 border-indigo-400 border-t-transparent rounded-full animate-spin" />
+                ) : (
+                  <Mic className="w-5 h-5" />
+                )}
+              </button>
               <input
                 type="text"
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
                 onKeyDown={(e) => e.key === 'Enter' && handleSend()}
-                placeholder="Ask for guidance..."
+                placeholder={voiceState === 'recording' ? 'Listening... release to send' : voiceState === 'transcribing' ? 'Transcribing...' : 'Ask for guidance...'}
                 className="flex-1 bg-slate-800 border border-slate-700 rounded-xl px-4 py-2 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
               />
-              <button 
-                onClick={handleSend}
-                disabled={!input.trim() || isTyping}
-                className="bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-700 disabled:text-slate-500 text-white p-2 rounded-xl transition-colors"
-              >
-                <Send className="w-5 h-5" />
-              </button>
+              {isTyping ? (
+                <button
+                  onClick={handleStop}
+                  title="Stop"
+                  className="bg-slate-700 hover:bg-slate-600 text-white p-2 rounded-xl transition-colors"
+                >
+                  <Square className="w-5 h-5" fill="currentColor" />
+                </button>
+              ) : (
+                <button 
+                  onClick={handleSend}
+                  disabled={!input.trim() || isBusy}
+                  className="bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-700 disabled:text-slate-500 text-white p-2 rounded-xl transition-colors"
+                >
+                  <Send className="w-5 h-5" />
+                </button>
+              )}
             </div>
+            {voiceError && <p className="mt-2 text-xs text-rose-400">{voiceError}</p>}
           </div>
         </div>
       )}
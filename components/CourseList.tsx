@@ -0,0 +1,272 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, Brain, Check, GraduationCap, Lock, Play, RotateCcw, Sparkles, Trash2 } from 'lucide-react';
+import Button from './Button';
+import { planCourse } from '../services/meditation';
+import { toGenerationError } from '../services/errors';
+import {
+  COURSE_LENGTHS, MAX_COURSE_DAYS, completedDays, createCourse, deleteCourse, isDayUnlocked, listCourses, saveCourse, setDayCompleted,
+} from '../services/courses';
+import { formatDate } from '../utils/format';
+import { Course, GenerationParams } from '../types';
+
+interface Props {
+  params: GenerationParams; // voice and length for new courses
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onOpenDay: (course: Course, day: number) => void;
+}
+
+const CourseList: React.FC<Props> = ({ params, selectedId, onSelect, onOpenDay }) => {
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [focus, setFocus] = useState('');
+  const [mood, setMood] = useState('');
+  const [length, setLength] = useState(COURSE_LENGTHS[0]);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const planRef = useRef<AbortController | null>(null);
+
+  const refresh = async () => {
+    try {
+      setCourses(await listCourses());
+      setError('');
+    } catch (e) {
+      console.error(e);
+      setError('Could not open your courses.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+    return () => planRef.current?.abort();
+  }, []);
+
+  const handlePlan = async () => {
+    if (!focus.trim() || !mood.trim()) return;
+    const controller = new AbortController();
+    planRef.current = controller;
+    setIsPlanning(true);
+    setError('');
+    try {
+      const courseParams = { ...params, mood: mood.trim(), focus: focus.trim() };
+      const plan = await planCourse(courseParams, length, controller.signal);
+      const course = await saveCourse(createCourse(plan, courseParams));
+      setFocus('');
+      setMood('');
+      await refresh();
+      onSelect(course.id);
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      console.error(e);
+      setError(toGenerationError(e).message);
+    } finally {
+      if (planRef.current === controller) setIsPlanning(false);
+    }
+  };
+
+  const handleDelete = async (course: Course) => {
+    if (!window.confirm(`Delete the course "${course.title}"? Its sessions stay in My Sessions.`)) return;
+    try {
+      await deleteCourse(course.id);
+      onSelect(null);
+      await refresh();
+    } catch (e) {
+      console.error(e);
+      setError('Could not delete that course.');
+    }
+  };
+
+  const toggleDone = async (course: Course, day: number) => {
+    try {
+      await setDayCompleted(course.id, day, !course.days[day].completedAt);
+      await refresh();
+    } catch (e) {
+      console.error(e);
+      setError('Could not update your progress.');
+    }
+  };
+
+  const selected = courses.find((c) => c.id === selectedId);
+
+  if (selected) {
+    const done = completedDays(selected);
+    // The first day not yet done is where the course continues
+    const next = selected.days.findIndex((d) => !d.completedAt);
+
+    return (
+      <div className="max-w-3xl mx-auto w-full animate-in fade-in duration-700">
+        <button onClick={() => onSelect(null)} className="flex items-center gap-2 text-sm text-slate-400 hover:text-white transition-colors mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          All courses
+        </button>
+
+        <div className="mb-8">
+          <h2 className="text-4xl font-light tracking-tight text-white mb-2">{selected.title}</h2>
+          <p className="text-slate-400 font-light mb-5">{selected.description}</p>
+          <div className="flex items-center gap-4">
+            <div className="flex-1 bg-white/10 rounded-full h-1.5">
+              <div className="bg-indigo-400 h-full rounded-full transition-all" style={{ width: `${(done / selected.days.length) * 100}%` }} />
+            </div>
+            <span className="text-sm text-slate-400 tabular-nums">{done} of {selected.days.length} days</span>
+          </div>
+        </div>
+
+        {error && <p className="text-rose-400 mb-6">{error}</p>}
+
+        <ol className="space-y-3">
+          {selected.days.map((day, i) => {
+            const unlocked = isDayUnlocked(selected, i);
+            return (
+              <li
+                key={i}
+                className={`flex items-center gap-4 rounded-2xl border p-4 ${
+                  i === next ? 'bg-indigo-500/10 border-indigo-500/50' : 'bg-slate-800/50 border-slate-700'
+                } ${unlocked ? '' : 'opacity-50'}`}
+              >
+                <span className={`w-10 h-10 shrink-0 rounded-full flex items-center justify-center text-sm font-medium ${
+                  day.completedAt ? 'bg-emerald-500/20 text-emerald-300' : 'bg-slate-900 text-slate-300'
+                }`}>
+                  {day.completedAt ? <Check className="w-4 h-4" /> : i + 1}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-white font-medium">{day.title}</p>
+                  <p className="text-sm text-slate-400">{day.theme}</p>
+                </div>
+                {unlocked ? (
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      variant="ghost"
+                      className="!px-3 !py-1.5 text-sm"
+                      onClick={() => toggleDone(selected, i)}
+                      title={day.completedAt ? 'Mark as not done' : 'Mark as done'}
+                    >
+                      {day.completedAt ? <RotateCcw className="w-4 h-4" /> : <Check className="w-4 h-4" />}
+                    </Button>
+                    <Button variant={i === next ? 'primary' : 'secondary'} className="!px-4 !py-2 text-sm" onClick={() => onOpenDay(selected, i)}>
+                      <Play className="w-4 h-4" fill="currentColor" />
+                      {day.sessionId ? 'Replay' : 'Begin'}
+                    </Button>
+                  </div>
+                ) : (
+                  <Lock className="w-4 h-4 text-slate-500 shrink-0" aria-label="Finish the earlier days first" />
+                )}
+              </li>
+            );
+          })}
+        </ol>
+
+        <Button variant="ghost" className="mt-8 mx-auto hover:!text-rose-400" onClick={() => handleDelete(selected)}>
+          <Trash2 className="w-4 h-4" />
+          Delete course
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto w-full animate-in fade-in duration-700">
+      <div className="mb-8">
+        <h2 className="text-4xl font-light tracking-tight text-white mb-2">Courses</h2>
+        <p className="text-slate-400 font-light">A daily practice, each session building on the one before.</p>
+      </div>
+
+      <div className="bg-slate-800/50 backdrop-blur-xl border border-slate-700 rounded-3xl p-8 shadow-2xl space-y-6 mb-10">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm font-medium text-slate-300 ml-1">
+              <Sparkles className="w-4 h-4 text-purple-400" />
+              What would you like to work on?
+            </label>
+            <input
+              type="text"
+              placeholder="e.g., Sleep, Focus, Self-compassion"
+              className="w-full bg-slate-900/50 border border-slate-700 rounded-2xl px-6 py-4 text-white placeholder-slate-600 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-all"
+              value={focus}
+              onChange={(e) => setFocus(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm font-medium text-slate-300 ml-1">
+              <Brain className="w-4 h-4 text-indigo-400" />
+              Where are you starting from?
+            </label>
+            <input
+              type="text"
+              placeholder="e.g., Wired at bedtime, Easily distracted"
+              className="w-full bg-slate-900/50 border border-slate-700 rounded-2xl px-6 py-4 text-white placeholder-slate-600 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-all"
+              value={mood}
+              onChange={(e) => setMood(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-col md:flex-row md:items-center gap-4">
+          <div className="grid grid-cols-4 gap-2 bg-slate-900/50 p-1.5 rounded-2xl border border-slate-700 md:w-80">
+            {COURSE_LENGTHS.map((days) => (
+              <button
+                key={days}
+                onClick={() => setLength(days)}
+                className={`py-2.5 rounded-xl text-sm font-medium transition-all ${
+                  length === days ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-400 hover:text-white hover:bg-slate-800'
+                }`}
+              >
+                {days} days
+              </button>
+            ))}
+            <input
+              type="number"
+              min={2}
+              max={MAX_COURSE_DAYS}
+              aria-label="Custom number of days"
+              value={length}
+              onChange={(e) => {
+                const days = Math.round(Number(e.target.value));
+                if (days) setLength(Math.min(MAX_COURSE_DAYS, Math.max(2, days)));
+              }}
+              className={`w-full min-w-0 rounded-xl text-sm font-medium text-center bg-transparent focus:outline-none focus:ring-1 focus:ring-indigo-500 ${
+                COURSE_LENGTHS.includes(length) ? 'text-slate-400' : 'bg-indigo-600 text-white'
+              }`}
+            />
+          </div>
+          <p className="text-sm text-slate-500 flex-1">{params.duration} minutes a day, in your usual voice.</p>
+          <Button onClick={handlePlan} isLoading={isPlanning} disabled={!focus.trim() || !mood.trim()}>
+            <GraduationCap className="w-4 h-4" />
+            Plan my course
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="text-rose-400 mb-6">{error}</p>}
+
+      {!isLoading && courses.length === 0 && !error && (
+        <p className="text-slate-400 text-center py-6">Your courses will appear here.</p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+        {courses.map((course) => {
+          const done = completedDays(course);
+          return (
+            <button
+              key={course.id}
+              onClick={() => onSelect(course.id)}
+              className="text-left bg-slate-800/50 border border-slate-700 hover:border-slate-500 rounded-3xl p-6 flex flex-col gap-3 transition-colors"
+            >
+              <h3 className="text-lg font-medium text-white leading-snug">{course.title}</h3>
+              <p className="text-sm text-slate-400 line-clamp-2">{course.description}</p>
+              <div className="bg-white/10 rounded-full h-1 mt-auto">
+                <div className="bg-indigo-400 h-full rounded-full" style={{ width: `${(done / course.days.length) * 100}%` }} />
+              </div>
+              <p className="text-xs text-slate-500">
+                {done === course.days.length ? 'Completed' : `Day ${done + 1} of ${course.days.length}`} · {formatDate(course.createdAt)}
+              </p>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CourseList;
\ No newline at end of file
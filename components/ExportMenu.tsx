@@ -0,0 +1,80 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Download, FileAudio, FileText, Image, Package } from 'lucide-react';
+import { MeditationSession } from '../types';
+import { exportAudio, exportScript, exportImage, exportBundle } from '../services/bundle';
+import Button from './Button';
+
+interface Props {
+  session: MeditationSession;
+}
+
+const ExportMenu: React.FC<Props> = ({ session }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const run = async (action: () => void | Promise<void>) => {
+    setIsOpen(false);
+    setIsExporting(true);
+    setError('');
+    try {
+      await action();
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : 'Export failed.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const options = [
+    { label: 'Everything (.zip)', icon: Package, action: () => exportBundle(session) },
+    { label: 'Audio (.wav)', icon: FileAudio, action: () => exportAudio(session), disabled: !session.audioBuffer },
+    { label: 'Script (.md)', icon: FileText, action: () => exportScript(session, 'markdown') },
+    { label: 'Script (.txt)', icon: FileText, action: () => exportScript(session, 'text') },
+    { label: 'Background image', icon: Image, action: () => exportImage(session), disabled: !session.imageUrl },
+  ];
+
+  return (
+    <div ref={menuRef} className="relative flex-1">
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 left-0 right-0 bg-slate-900/95 backdrop-blur-xl border border-slate-700 rounded-2xl shadow-2xl overflow-hidden z-20 animate-in fade-in slide-in-from-bottom-2">
+          {options.map(({ label, icon: Icon, action, disabled }) => (
+            <button
+              key={label}
+              onClick={() => run(action)}
+              disabled={disabled}
+              className="w-full flex items-center gap-3 px-4 py-3 text-sm text-slate-300 hover:bg-white/5 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              <Icon className="w-4 h-4 text-indigo-400" />
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+      <Button
+        variant="ghost"
+        className="w-full border border-slate-700"
+        onClick={() => setIsOpen(!isOpen)}
+        isLoading={isExporting}
+      >
+        <Download className="w-4 h-4" />
+        Export
+      </Button>
+      {error && <p className="absolute top-full mt-2 text-xs text-rose-400">{error}</p>}
+    </div>
+  );
+};
+
+export default ExportMenu;
\ No newline at end of file
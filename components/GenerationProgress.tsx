@@ -0,0 +1,70 @@
+import React from 'react';
+import { FileText, Mic2, Image, CheckCircle2, Circle, AlertCircle, RotateCcw } from 'lucide-react';
+import { GenerationProgress as Progress, GenerationStep } from '../types';
+
+interface Props {
+  steps: Progress;
+  onRetry: (step: GenerationStep) => void;
+  compact?: boolean; // one line per unfinished step, shown above the player
+}
+
+const STEPS: { id: GenerationStep; label: string; retryLabel: string; icon: typeof FileText }[] = [
+  { id: 'script', label: 'Writing the script', retryLabel: 'Start over', icon: FileText },
+  { id: 'audio', label: 'Voicing your guide', retryLabel: 'Retry voice', icon: Mic2 },
+  { id: 'image', label: 'Painting the scene', retryLabel: 'Retry image', icon: Image },
+];
+
+const StatusIcon: React.FC<{ status: Progress[GenerationStep]['status'] }> = ({ status }) => {
+  switch (status) {
+    case 'running':
+      return <span className="w-4 h-4 border-2 border-indigo-400 border-t-transparent rounded-full animate-spin" />;
+    case 'done':
+      return <CheckCircle2 className="w-4 h-4 text-emerald-400" />;
+    case 'failed':
+      return <AlertCircle className="w-4 h-4 text-rose-400" />;
+    default:
+      return <Circle className="w-4 h-4 text-slate-600" />;
+  }
+};
+
+const GenerationProgress: React.FC<Props> = ({ steps, onRetry, compact }) => {
+  const visible = compact ? STEPS.filter(({ id }) => steps[id].status !== 'done') : STEPS;
+  if (!visible.length) return null;
+
+  return (
+    <ul className={compact ? 'mb-4 flex flex-wrap justify-center gap-2' : 'w-full max-w-md space-y-3 text-left'}>
+      {visible.map(({ id, label, retryLabel, icon: Icon }) => {
+        const { status, error } = steps[id];
+        const failed = status === 'failed';
+        return (
+          <li
+            key={id}
+            className={`flex items-start gap-3 border rounded-2xl ${compact ? 'px-4 py-2 text-xs' : 'px-5 py-4 text-sm'} ${
+              failed ? 'bg-rose-500/10 border-rose-500/30' : 'bg-slate-800/50 border-slate-700'
+            }`}
+          >
+            <span className="mt-0.5 shrink-0"><StatusIcon status={status} /></span>
+            <div className="flex-1 min-w-0">
+              <p className={`flex items-center gap-2 ${status === 'pending' ? 'text-slate-500' : 'text-slate-200'}`}>
+                <Icon className="w-3.5 h-3.5 opacity-60" />
+                {label}
+              </p>
+              {failed && error && <p className="mt-1 text-rose-200/80">{error}</p>}
+            </div>
+            {failed && (
+              <button
+                onClick={() => onRetry(id)}
+                className="shrink-0 flex items-center gap-1.5 text-rose-200 hover:text-white transition-colors"
+              >
+                <RotateCcw className="w-3.5 h-3.5" />
+                {retryLabel}
+              </button>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default GenerationProgress;
\ No newline at end of file
@@ -0,0 +1,77 @@
+import React, { useState, useEffect } from 'react';
+import { Image as ImageIcon, X } from 'lucide-react';
+import { listSessions } from '../services/library';
+import { SavedSession } from '../types';
+
+interface Props {
+  value: string | null; // the chosen image URL; null paints a new one
+  onChange: (imageUrl: string | null) => void;
+}
+
+// How many earlier images to offer
+const MAX_CHOICES = 12;
+
+// Picks an earlier session's image to use with a new script
+const ImageReusePicker: React.FC<Props> = ({ value, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [choices, setChoices] = useState<SavedSession[] | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || choices) return;
+    listSessions()
+      .then((sessions) => {
+        const seen = new Set<string>();
+        setChoices(sessions.filter((s) => s.imageUrl && !seen.has(s.imageUrl) && seen.add(s.imageUrl)).slice(0, MAX_CHOICES));
+      })
+      .catch((e) => {
+        console.error(e);
+        setChoices([]);
+      });
+  }, [isOpen, choices]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3 text-sm text-slate-400 ml-1">
+        {value ? (
+          <>
+            <img src={value} alt="" className="w-10 h-10 rounded-lg object-cover" />
+            <span className="flex-1">Using an earlier image</span>
+            <button onClick={() => setIsOpen(!isOpen)} className="hover:text-white">Change</button>
+            <button onClick={() => onChange(null)} className="hover:text-white" title="Paint a new image instead">
+              <X className="w-4 h-4" />
+            </button>
+          </>
+        ) : (
+          <button onClick={() => setIsOpen(!isOpen)} className="flex items-center gap-3 hover:text-white">
+            <ImageIcon className="w-4 h-4" />
+            Reuse an image from an earlier session
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="flex gap-2 overflow-x-auto pb-1 animate-in fade-in">
+          {choices === null && <p className="text-xs text-slate-500 ml-1">Loading...</p>}
+          {choices?.length === 0 && <p className="text-xs text-slate-500 ml-1">Your saved sessions have no images yet.</p>}
+          {choices?.map((session) => (
+            <button
+              key={session.id}
+              onClick={() => {
+                onChange(session.imageUrl!);
+                setIsOpen(false);
+              }}
+              title={session.title}
+              className={`shrink-0 w-20 h-20 rounded-xl overflow-hidden border-2 transition-all ${
+                value === session.imageUrl ? 'border-indigo-500' : 'border-transparent hover:border-slate-500'
+              }`}
+            >
+              <img src={session.imageUrl} alt={session.title} className="w-full h-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImageReusePicker;
\ No newline at end of file
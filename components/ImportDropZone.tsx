@@ -0,0 +1,69 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { PackageOpen } from 'lucide-react';
+
+interface Props {
+  onFiles: (files: File[]) => void;
+}
+
+/**
+ * Full-window drop target for exported session bundles.
+ */
+const ImportDropZone: React.FC<Props> = ({ onFiles }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  // dragenter/dragleave fire for every child element, so count the nesting
+  const depthRef = useRef(0);
+  const onFilesRef = useRef(onFiles);
+  onFilesRef.current = onFiles;
+
+  useEffect(() => {
+    const hasFiles = (e: DragEvent) => Array.from(e.dataTransfer?.types || []).includes('Files');
+
+    const handleEnter = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      depthRef.current++;
+      setIsDragging(true);
+    };
+    const handleOver = (e: DragEvent) => {
+      if (hasFiles(e)) e.preventDefault();
+    };
+    const handleLeave = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      depthRef.current = Math.max(0, depthRef.current - 1);
+      if (depthRef.current === 0) setIsDragging(false);
+    };
+    const handleDrop = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      depthRef.current = 0;
+      setIsDragging(false);
+      const files = Array.from(e.dataTransfer?.files || []);
+      if (files.length) onFilesRef.current(files);
+    };
+
+    window.addEventListener('dragenter', handleEnter);
+    window.addEventListener('dragover', handleOver);
+    window.addEventListener('dragleave', handleLeave);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragenter', handleEnter);
+      window.removeEventListener('dragover', handleOver);
+      window.removeEventListener('dragleave', handleLeave);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, []);
+
+  if (!isDragging) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/80 backdrop-blur-sm flex items-center justify-center pointer-events-none animate-in fade-in">
+      <div className="border-2 border-dashed border-indigo-400/60 rounded-3xl px-16 py-12 text-center">
+        <PackageOpen className="w-12 h-12 text-indigo-400 mx-auto mb-4" />
+        <p className="text-xl font-light text-white">Drop a ZenGen export to open it</p>
+        <p className="text-sm text-slate-400 mt-2">A .zip bundle, or session.json with its audio.wav</p>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDropZone;
\ No newline at end of file
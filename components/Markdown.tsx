@@ -0,0 +1,62 @@
+import React from 'react';
+import { parseMarkdown, parseInline, MarkdownInline } from '../utils/markdown';
+
+interface Props {
+  text: string;
+}
+
+const Inline: React.FC<{ nodes: MarkdownInline[] }> = ({ nodes }) => (
+  <>
+    {nodes.map((node, i) => {
+      switch (node.kind) {
+        case 'code':
+          return <code key={i} className="px-1 py-0.5 rounded bg-slate-900/70 text-indigo-200 text-[0.85em]">{node.text}</code>;
+        case 'strong':
+          return <strong key={i} className="font-semibold text-white"><Inline nodes={node.children} /></strong>;
+        case 'em':
+          return <em key={i}><Inline nodes={node.children} /></em>;
+        case 'link':
+          return (
+            <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-indigo-300 underline hover:text-indigo-200">
+              <Inline nodes={node.children} />
+            </a>
+          );
+        default:
+          return <React.Fragment key={i}>{node.text}</React.Fragment>;
+      }
+    })}
+  </>
+);
+
+// Renders guide replies. Everything becomes React elements, so HTML in the
+// text is shown literally rather than injected.
+const Markdown: React.FC<Props> = ({ text }) => (
+  <div className="space-y-2">
+    {parseMarkdown(text).map((block, i) => {
+      switch (block.kind) {
+        case 'heading':
+          return <p key={i} className="font-semibold text-white"><Inline nodes={parseInline(block.text)} /></p>;
+        case 'list': {
+          const List = block.ordered ? 'ol' : 'ul';
+          return (
+            <List key={i} start={block.ordered ? block.start : undefined} className={`pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+              {block.items.map((item, j) => <li key={j}><Inline nodes={parseInline(item)} /></li>)}
+            </List>
+          );
+        }
+        case 'quote':
+          return (
+            <blockquote key={i} className="border-l-2 border-indigo-400/50 pl-3 italic text-slate-300 whitespace-pre-line">
+              <Inline nodes={parseInline(block.text)} />
+            </blockquote>
+          );
+        case 'code':
+          return <pre key={i} className="p-3 rounded-lg bg-slate-900/70 text-xs overflow-x-auto"><code>{block.text}</code></pre>;
+        default:
+          return <p key={i} className="whitespace-pre-line"><Inline nodes={parseInline(block.text)} /></p>;
+      }
+    })}
+  </div>
+);
+
+export default Markdown;
\ No newline at end of file
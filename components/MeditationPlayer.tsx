@@ -1,100 +1,359 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Play, Pause, SkipBack, Volume2, Download, RefreshCw } from 'lucide-react';
-import { MeditationSession } from '../types';
-import { getAudioContext } from '../utils/audio';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Play, Pause, SkipBack, Volume2, RefreshCw, PenLine, Moon } from 'lucide-react';
+import { AmbientLayerId, AmbientLevels, MeditationSession, SleepSettings } from '../types';
+import { getAudioContext, getProgramBus } from '../utils/audio';
+import { AmbientMixer, createAmbientMixer, detectSpeechRegions, DEFAULT_AMBIENT_LEVELS } from '../utils/ambient';
+import { loadPreference, savePreference } from '../utils/storage';
+import { formatTime } from '../utils/format';
+import { estimateCues, findActiveCue } from '../utils/timing';
+import { setBackgroundPlayback, setMediaSession, updateMediaPosition } from '../utils/mediaSession';
+import { DEFAULT_SLEEP_SETTINGS, holdWakeLock, isSleepSession } from '../utils/sleep';
 import Button from './Button';
+import ExportMenu from './ExportMenu';
+import SoundscapeMixer from './SoundscapeMixer';
+import BreathingInsertMenu from './BreathingInsertMenu';
+import ScriptPanel from './ScriptPanel';
+import MoodCheckIn from './MoodCheckIn';
+import SleepMenu from './SleepMenu';
 
 interface Props {
   session: MeditationSession;
   onReset: () => void;
+  autoPlay?: boolean; // start as soon as there is audio, e.g. while it streams in
+  onPositionChange?: (seconds: number) => void;
+  onInsertBreathing?: (spec: string, rounds: number, position: number) => number | undefined; // returns where it went
+  onComplete?: (listenedSeconds: number, moodBefore?: number) => void; // played through to the end
+  onMoodAfter?: (mood: number) => void; // asks for mood check-ins when set
+  onEditScript?: () => void;
 }
 
-const MeditationPlayer: React.FC<Props> = ({ session, onReset }) => {
+// How long a tap keeps the dimmed screen awake
+const WAKE_SECONDS = 20;
+// Sleep mode fades to this (-60 dB) before going silent
+const SLEEP_FLOOR = 0.001;
+
+const MeditationPlayer: React.FC<Props> = ({ session, onReset, autoPlay, onPositionChange, onInsertBreathing, onComplete, onMoodAfter, onEditScript }) => {
+  // While audio streams in, the length is the target until the last segment lands
+  const live = session.audioBuffer ? undefined : session.live;
+  const duration = session.audioBuffer?.duration
+    ?? (live ? (live.done ? live.available : Math.max(live.available, live.expectedDuration)) : 0);
+  const canPlay = !!session.audioBuffer || !!live?.clips.length;
   const [isPlaying, setIsPlaying] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const [isBuffering, setIsBuffering] = useState(false);
+  const [position, setPosition] = useState(0); // seconds into the voice track
+  const [scrubPosition, setScrubPosition] = useState<number | null>(null);
+  const [loadedImage, setLoadedImage] = useState<string>();
+  const audioSourcesRef = useRef<AudioBufferSourceNode[]>([]);
   const startTimeRef = useRef<number>(0);
-  const pauseTimeRef = useRef<number>(0);
+  // Refs mirror playback state so rAF and onended callbacks never read stale values
+  const isPlayingRef = useRef(false);
+  const positionRef = useRef(0);
   const animationFrameRef = useRef<number>(0);
+  const progressBarRef = useRef<HTMLDivElement>(null);
   const [volume, setVolume] = useState(0.8);
+  const volumeRef = useRef(volume);
   const gainNodeRef = useRef<GainNode | null>(null);
+  const [ambientLevels, setAmbientLevels] = useState<AmbientLevels>(() => loadPreference('ambient', DEFAULT_AMBIENT_LEVELS));
+  const ambientRef = useRef<AmbientMixer | null>(null);
+  // Streamed playback: clips are scheduled as they arrive, and the clock may
+  // not run past `playbackEndRef` (the end of what has been scheduled)
+  const liveModeRef = useRef(false);
+  const scheduledClipsRef = useRef(0);
+  const playbackEndRef = useRef(0);
+  const fadeScheduledRef = useRef(false);
+  // Time actually heard, so skipping to the end doesn't count as practice
+  const listenedRef = useRef(0);
+  const segmentStartRef = useRef(0);
+  const [checkIn, setCheckIn] = useState<'before' | 'after' | null>('before');
+  const moodBeforeRef = useRef<number>();
+  const liveRef = useRef(live);
+  const durationRef = useRef(duration);
+  liveRef.current = live;
+  durationRef.current = duration;
+  // Sleep mode comes on by itself for sessions meant to fall asleep to
+  const [sleep, setSleep] = useState<SleepSettings>(() => {
+    const saved = loadPreference('sleep', DEFAULT_SLEEP_SETTINGS);
+    return isSleepSession(session.params) ? { ...saved, enabled: true } : saved;
+  });
+  const sleepRef = useRef(sleep);
+  // The sleep timer: seconds left while paused, and the audio clock time it
+  // stops playback at while playing. The stop itself is a silent source
+  // ending then, since timers in a background tab may not fire for a minute.
+  const sleepLeftRef = useRef(sleep.timerMinutes * 60);
+  const sleepDeadlineRef = useRef(0);
+  const sleepEndRef = useRef<ConstantSourceNode | null>(null);
+  const [dimmed, setDimmed] = useState(false);
+  const [, setSleepTick] = useState(0);
 
   const ctx = getAudioContext();
 
+  const cues = useMemo(
+    () => session.cues ?? estimateCues(session.script, session.audioBuffer),
+    [session.cues, session.script, session.audioBuffer],
+  );
+
+  const getPosition = () => isPlayingRef.current
+    ? Math.min(Math.max(ctx.currentTime - startTimeRef.current, 0), playbackEndRef.current)
+    : positionRef.current;
+
+  const updatePosition = (seconds: number) => {
+    positionRef.current = seconds;
+    setPosition(seconds);
+    onPositionChange?.(seconds);
+  };
+
   const stopAudio = () => {
-    if (audioSourceRef.current) {
+    const sources = audioSourcesRef.current;
+    // Clear the ref first so onended knows this stop was deliberate
+    audioSourcesRef.current = [];
+    sources.forEach((source) => {
       try {
-        audioSourceRef.current.stop();
+        source.stop();
       } catch (e) {
         // ignore already stopped errors
       }
-      audioSourceRef.current = null;
+    });
+    if (ambientRef.current) {
+      ambientRef.current.stop();
+      ambientRef.current = null;
+    }
+    clearSleepEnd();
+    // Keep what's left of the sleep timer for when playback resumes
+    if (sleepDeadlineRef.current) {
+      sleepLeftRef.current = Math.max(0, sleepDeadlineRef.current - ctx.currentTime);
+      sleepDeadlineRef.current = 0;
     }
     if (animationFrameRef.current) {
       cancelAnimationFrame(animationFrameRef.current);
     }
+    setIsBuffering(false);
+  };
+
+  const countListened = (until: number) => {
+    listenedRef.current += Math.max(0, until - segmentStartRef.current);
+    segmentStartRef.current = until;
+  };
+
+  const resetSleepTimer = () => {
+    clearSleepEnd();
+    sleepDeadlineRef.current = 0;
+    sleepLeftRef.current = sleepRef.current.timerMinutes * 60;
+  };
+
+  const finishPlayback = () => {
+    countListened(durationRef.current);
+    audioSourcesRef.current = [];
+    // Let the ambient bed finish its scheduled fade-out on its own
+    ambientRef.current = null;
+    resetSleepTimer();
+    cancelAnimationFrame(animationFrameRef.current);
+    isPlayingRef.current = false;
+    setIsPlaying(false);
+    setIsBuffering(false);
+    updatePosition(durationRef.current);
+
+    const listened = listenedRef.current;
+    listenedRef.current = 0;
+    onComplete?.(listened, moodBeforeRef.current);
+    // Nobody to ask once they've drifted off
+    setCheckIn(sleepRef.current.enabled ? null : 'after');
+  };
+
+  // A sleep timer running past the end of the script: the soundscape plays
+  // on alone until it stops
+  const hasSleepTail = () => {
+    const { enabled, timerMinutes } = sleepRef.current;
+    return enabled && timerMinutes > 0 && sleepDeadlineRef.current > startTimeRef.current + durationRef.current;
+  };
+
+  const clearSleepEnd = () => {
+    const end = sleepEndRef.current;
+    sleepEndRef.current = null;
+    try {
+      end?.stop();
+    } catch (e) {
+      // not started yet
+    }
+  };
+
+  // The sleep timer ran out, perhaps before the script did
+  const finishSleep = () => {
+    if (!isPlayingRef.current) return;
+    if (getPosition() < durationRef.current - 0.5) {
+      pauseAudio();
+      resetSleepTimer();
+      return;
+    }
+    isPlayingRef.current = false;
+    stopAudio();
+    finishPlayback();
+  };
+
+  // Sleep mode: ramps the volume down to silence over the last minutes and
+  // stops playback at the end of them. Rescheduled whenever the volume or the
+  // stop moves; otherwise just holds the volume.
+  const scheduleSleep = () => {
+    const gainNode = gainNodeRef.current;
+    clearSleepEnd();
+    if (!gainNode || !isPlayingRef.current) return;
+    const now = ctx.currentTime;
+    const level = volumeRef.current;
+    gainNode.gain.cancelScheduledValues(now);
+    gainNode.gain.setValueAtTime(level, now);
+
+    const { enabled, timerMinutes, fadeMinutes } = sleepRef.current;
+    if (!enabled) return;
+    // Without a timer the stop is the end of the script, not known until it has all streamed in
+    if (!timerMinutes && liveModeRef.current && !liveRef.current?.done) return;
+    const stopAt = timerMinutes ? sleepDeadlineRef.current : startTimeRef.current + durationRef.current;
+    const fadeFrom = Math.max(now, stopAt - fadeMinutes * 60);
+    if (level > 0 && stopAt > fadeFrom) {
+      gainNode.gain.setValueAtTime(level, fadeFrom);
+      gainNode.gain.exponentialRampToValueAtTime(level * SLEEP_FLOOR, stopAt);
+    }
+    gainNode.gain.setValueAtTime(0, Math.max(now, stopAt));
+
+    const end = ctx.createConstantSource();
+    end.offset.value = 0;
+    end.connect(gainNode);
+    end.onended = () => {
+      if (sleepEndRef.current === end) finishSleep();
+    };
+    end.start(now);
+    end.stop(Math.max(now, stopAt));
+    sleepEndRef.current = end;
   };
 
   const updateProgress = () => {
-    if (!session.audioBuffer) return;
-    
-    const elapsedTime = ctx.currentTime - startTimeRef.current;
-    const duration = session.audioBuffer.duration;
-    
-    const currentProgress = Math.min((elapsedTime / duration) * 100, 100);
-    setProgress(currentProgress);
+    if (!isPlayingRef.current) return;
+    if (liveModeRef.current) {
+      const elapsed = ctx.currentTime - startTimeRef.current;
+      const stream = liveRef.current;
+      if (!stream || stream.done) {
+        if (elapsed >= durationRef.current && !hasSleepTail()) {
+          finishPlayback();
+          return;
+        }
+      } else if (elapsed >= playbackEndRef.current) {
+        // Caught up with synthesis: hold the clock at the edge until more arrives
+        startTimeRef.current = ctx.currentTime - playbackEndRef.current;
+        setIsBuffering(true);
+      }
+    }
+    updatePosition(getPosition());
+    animationFrameRef.current = requestAnimationFrame(updateProgress);
+  };
+
+  // Schedules streamed clips that arrived since the last call, each at its
+  // place on the timeline relative to the current playback clock
+  const scheduleLiveClips = () => {
+    const stream = liveRef.current;
+    const gainNode = gainNodeRef.current;
+    if (!stream || !liveModeRef.current || !isPlayingRef.current || !gainNode) return;
+
+    const now = ctx.currentTime;
+    // The clock may have overrun the edge while no frames ran (e.g. a background tab)
+    startTimeRef.current = Math.max(startTimeRef.current, now - playbackEndRef.current);
+    const position = now - startTimeRef.current;
+
+    for (let i = scheduledClipsRef.current; i < stream.clips.length; i++) {
+      const { buffer, start } = stream.clips[i];
+      const at = startTimeRef.current + start;
+      const skip = Math.max(0, now - at);
+      if (skip >= buffer.duration) continue;
 
-    if (currentProgress < 100 && isPlaying) {
-      animationFrameRef.current = requestAnimationFrame(updateProgress);
-    } else if (currentProgress >= 100) {
-      setIsPlaying(false);
-      setProgress(100);
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(gainNode);
+      source.start(Math.max(at, now), skip);
+      audioSourcesRef.current.push(source);
+
+      const regions = detectSpeechRegions(buffer).map((r) => ({ start: r.start + start, end: r.end + start }));
+      ambientRef.current?.scheduleDucking(regions, position, now, false);
+    }
+    scheduledClipsRef.current = stream.clips.length;
+    playbackEndRef.current = stream.available;
+    if (position < stream.available) setIsBuffering(false);
+
+    if (stream.done && !fadeScheduledRef.current) {
+      fadeScheduledRef.current = true;
+      if (!hasSleepTail()) ambientRef.current?.fadeOut(startTimeRef.current + stream.available + 4, 6);
+      scheduleSleep();
     }
   };
 
-  const playAudio = () => {
-    if (!session.audioBuffer) return;
+  useEffect(scheduleLiveClips, [live]);
+
+  const playAudio = (from: number = positionRef.current) => {
+    if (!canPlay) return;
 
     // Resume context if suspended (browser policy)
     if (ctx.state === 'suspended') {
       ctx.resume();
     }
 
-    // Create source
-    const source = ctx.createBufferSource();
-    source.buffer = session.audioBuffer;
-
     // Create gain node for volume
     const gainNode = ctx.createGain();
-    gainNode.gain.value = volume;
+    gainNode.gain.value = volumeRef.current;
     gainNodeRef.current = gainNode;
+    gainNode.connect(getProgramBus());
 
-    source.connect(gainNode);
-    gainNode.connect(ctx.destination);
+    // Start over when resuming from the very end; streamed audio can only
+    // start where synthesis has reached
+    const playableEnd = live ? live.available : duration;
+    const offset = from >= duration - 0.05 ? 0 : Math.min(from, playableEnd);
+    const now = ctx.currentTime;
 
-    // Calculate offset if resuming
-    const offset = (progress / 100) * session.audioBuffer.duration;
-    
-    startTimeRef.current = ctx.currentTime - offset;
-    source.start(0, offset);
-    
-    audioSourceRef.current = source;
-    setIsPlaying(true);
+    // Ambient bed shares the volume control, ducks under the voice and
+    // fades out a few seconds after the last word
+    const ambient = createAmbientMixer(ctx, ambientLevels);
+    ambient.output.connect(gainNode);
+    ambient.start(now, offset === 0 ? 4 : 1);
+    ambientRef.current = ambient;
 
-    // Handle end event
-    source.onended = () => {
-      // Only trigger if it finished naturally (not stopped by user)
-      // We handle stop separately in pauseAudio
-    };
+    startTimeRef.current = now - offset;
+    segmentStartRef.current = offset;
+    isPlayingRef.current = true;
+    fadeScheduledRef.current = false;
+    sleepDeadlineRef.current = now + (sleepLeftRef.current || sleepRef.current.timerMinutes * 60);
 
+    if (session.audioBuffer) {
+      const source = ctx.createBufferSource();
+      source.buffer = session.audioBuffer;
+      source.connect(gainNode);
+      ambient.scheduleDucking(detectSpeechRegions(session.audioBuffer), offset, now);
+      if (!hasSleepTail()) ambient.fadeOut(now + duration - offset + 4, 6);
+
+      liveModeRef.current = false;
+      playbackEndRef.current = duration;
+      source.start(now, offset);
+      audioSourcesRef.current = [source];
+
+      source.onended = () => {
+        // Ignore sources stopped by pause or replaced by a seek
+        if (!audioSourcesRef.current.includes(source) || hasSleepTail()) return;
+        finishPlayback();
+      };
+    } else {
+      liveModeRef.current = true;
+      scheduledClipsRef.current = 0;
+      playbackEndRef.current = offset;
+      scheduleLiveClips();
+    }
+    scheduleSleep();
+
+    updatePosition(offset);
+    setIsPlaying(true);
     animationFrameRef.current = requestAnimationFrame(updateProgress);
   };
 
   const pauseAudio = () => {
+    const current = getPosition();
+    if (isPlayingRef.current) countListened(current);
+    isPlayingRef.current = false;
     stopAudio();
     setIsPlaying(false);
-    // Capture current progress is handled by the update loop before stopping
-    // But since we stop the loop, the `progress` state is the last valid position.
+    updatePosition(current);
   };
 
   const togglePlay = () => {
@@ -105,30 +364,194 @@ const MeditationPlayer: React.FC<Props> = ({ session, onReset }) => {
     }
   };
 
+  const seek = (seconds: number) => {
+    const target = Math.min(Math.max(seconds, 0), live ? live.available : duration);
+    if (isPlayingRef.current) {
+      countListened(getPosition());
+      stopAudio();
+      playAudio(target);
+    } else {
+      updatePosition(target);
+    }
+    updateMediaPosition(isPlayingRef.current, target, durationRef.current);
+  };
+
+  const positionFromPointer = (clientX: number) => {
+    const rect = progressBarRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1) * duration;
+  };
+
+  const handleScrubStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!duration) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setScrubPosition(positionFromPointer(e.clientX));
+  };
+
+  const handleScrubMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (scrubPosition === null) return;
+    setScrubPosition(positionFromPointer(e.clientX));
+  };
+
+  const handleScrubEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (scrubPosition === null) return;
+    setScrubPosition(null);
+    seek(positionFromPointer(e.clientX));
+  };
+
+  const handleSeekKey = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const targets: Record<string, number> = {
+      ArrowLeft: getPosition() - 10,
+      ArrowRight: getPosition() + 10,
+      Home: 0,
+      End: duration,
+    };
+    if (!(e.key in targets)) return;
+    e.preventDefault();
+    seek(targets[e.key]);
+  };
+
   const handleVolumeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newVol = parseFloat(e.target.value);
     setVolume(newVol);
-    if (gainNodeRef.current) {
-      gainNodeRef.current.gain.value = newVol;
+    volumeRef.current = newVol;
+    scheduleSleep();
+  };
+
+  const handleSleepChange = (next: SleepSettings) => {
+    const previous = sleepRef.current;
+    sleepRef.current = next;
+    setSleep(next);
+    savePreference('sleep', next);
+    if (next.timerMinutes !== previous.timerMinutes || (next.enabled && !previous.enabled)) {
+      // A new timer starts counting from now
+      sleepLeftRef.current = next.timerMinutes * 60;
+      if (isPlayingRef.current) sleepDeadlineRef.current = ctx.currentTime + sleepLeftRef.current;
+    }
+    if (!isPlayingRef.current) return;
+
+    const at = getPosition();
+    if (at >= durationRef.current - 0.05) {
+      // Only the soundscape is left: carry on to the new stop, or end here
+      if (hasSleepTail()) {
+        scheduleSleep();
+      } else {
+        isPlayingRef.current = false;
+        stopAudio();
+        finishPlayback();
+      }
+    } else if (next.enabled !== previous.enabled || next.timerMinutes !== previous.timerMinutes) {
+      // The soundscape's fade at the end of the script may need to come or go
+      countListened(at);
+      stopAudio();
+      playAudio(at);
+    } else {
+      scheduleSleep();
     }
   };
 
-  // Cleanup on unmount
+  const handleAmbientChange = (id: AmbientLayerId, level: number) => {
+    const next = { ...ambientLevels, [id]: level };
+    setAmbientLevels(next);
+    savePreference('ambient', next);
+    ambientRef.current?.setLevel(id, level);
+  };
+
+  // Where a breathing exercise was just inserted, while the new audio arrives
+  const insertedAtRef = useRef<number | null>(null);
+
+  const handleInsertBreathing = (spec: string, rounds: number) => {
+    insertedAtRef.current = onInsertBreathing?.(spec, rounds, getPosition()) ?? null;
+  };
+
+  // The audio was edited in place (e.g. a breathing exercise was inserted):
+  // carry on with the new buffer from the same point, or from the exercise
+  // if it went in behind that point (in the pause after the paragraph)
+  const previousBufferRef = useRef(session.audioBuffer);
+  useEffect(() => {
+    const previous = previousBufferRef.current;
+    const insertedAt = insertedAtRef.current;
+    previousBufferRef.current = session.audioBuffer;
+    insertedAtRef.current = null;
+    if (!previous || previous === session.audioBuffer) return;
+    const current = getPosition();
+    const at = insertedAt !== null ? Math.min(insertedAt, current) : current;
+    if (!isPlayingRef.current) {
+      if (at !== current) updatePosition(at);
+      return;
+    }
+    countListened(current);
+    stopAudio();
+    playAudio(at);
+  }, [session.audioBuffer]);
+
+  // Lock screen and media keys call whatever the latest controls are
+  const controls = { play: () => playAudio(), pause: pauseAudio, seek, getPosition };
+  const controlsRef = useRef(controls);
+  controlsRef.current = controls;
+
+  useEffect(() => setMediaSession(
+    { title: session.title, subtitle: session.params?.focus, artworkUrl: session.imageUrl },
+    {
+      play: () => !isPlayingRef.current && controlsRef.current.play(),
+      pause: () => isPlayingRef.current && controlsRef.current.pause(),
+      seek: (seconds) => controlsRef.current.seek(seconds),
+      getPosition: () => controlsRef.current.getPosition(),
+    },
+  ), [session.title, session.params?.focus, session.imageUrl]);
+
+  useEffect(() => {
+    setBackgroundPlayback(isPlaying);
+    updateMediaPosition(isPlaying, positionRef.current, duration);
+  }, [isPlaying, duration]);
+
+  // Sleep mode dims the screen and keeps it from locking while playing
+  const sleeping = sleep.enabled && isPlaying;
+  useEffect(() => {
+    holdWakeLock(sleeping);
+    setDimmed(sleeping);
+  }, [sleeping]);
+
+  // Woken by a tap, the screen dims again after a while
+  useEffect(() => {
+    if (!sleeping || dimmed) return;
+    const timeout = setTimeout(() => setDimmed(true), WAKE_SECONDS * 1000);
+    return () => clearTimeout(timeout);
+  }, [sleeping, dimmed]);
+
+  // The sleep timer counts down even once only the soundscape is left
+  useEffect(() => {
+    if (!sleeping || !sleep.timerMinutes) return;
+    const interval = setInterval(() => setSleepTick((tick) => tick + 1), 1000);
+    return () => clearInterval(interval);
+  }, [sleeping, sleep.timerMinutes]);
+
+  // Start right away when asked, and clean up on unmount
   useEffect(() => {
+    onPositionChange?.(0);
+    if (autoPlay) playAudio(0);
     return () => {
+      isPlayingRef.current = false;
       stopAudio();
+      setBackgroundPlayback(false);
+      holdWakeLock(false);
     };
   }, []);
 
-  useEffect(() => {
-    if (isPlaying) {
-        animationFrameRef.current = requestAnimationFrame(updateProgress);
-    }
-    return () => {
-        if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isPlaying]);
+  const displayPosition = scrubPosition ?? position;
+  const progress = duration ? (displayPosition / duration) * 100 : 0;
+  const buffered = live && duration ? (live.available / duration) * 100 : 100;
+  // Nothing is highlighted until playback has begun
+  const activeCue = isPlaying || displayPosition > 0 ? findActiveCue(cues, displayPosition) : -1;
+  // A timer counts down to its first bell, then shows what's left of the sit
+  const timer = session.timer;
+  const timerPhase = !timer || displayPosition < timer.warmupStart || displayPosition >= timer.sitEnd
+    ? null
+    : displayPosition < timer.sitStart ? 'warmup' : 'sit';
+  // Until sleep mode stops playback: the timer, or else the rest of the session
+  const sleepRemaining = !sleep.timerMinutes
+    ? duration - displayPosition
+    : Math.max(0, isPlaying && sleepDeadlineRef.current ? sleepDeadlineRef.current - ctx.currentTime : sleepLeftRef.current);
 
   return (
     <div className="w-full max-w-5xl mx-auto animate-in fade-in duration-700">
@@ -136,43 +559,94 @@ const MeditationPlayer: React.FC<Props> = ({ session, onReset }) => {
         
         {/* Left: Visuals */}
         <div className="relative h-full min-h-[400px] bg-slate-800 rounded-3xl overflow-hidden shadow-2xl group">
-          {session.imageUrl ? (
+          <div className="absolute inset-0 bg-gradient-to-br from-indigo-900 to-slate-900 flex items-center justify-center">
+            {!session.imageUrl && session.live && !session.timer && <p className="text-white/20 animate-pulse">Visuals loading...</p>}
+          </div>
+          {session.imageUrl && (
             <img 
               src={session.imageUrl} 
               alt={session.imagePrompt} 
-              className={`w-full h-full object-cover transition-transform duration-[20s] ease-linear ${isPlaying ? 'scale-110' : 'scale-100'}`} 
+              onLoad={() => setLoadedImage(session.imageUrl)}
+              className={`relative w-full h-full object-cover transition-[transform,opacity] duration-[20s,1.5s] ease-linear ${isPlaying ? 'scale-110' : 'scale-100'} ${loadedImage === session.imageUrl ? 'opacity-100' : 'opacity-0'}`} 
             />
-          ) : (
-            <div className="w-full h-full bg-gradient-to-br from-indigo-900 to-slate-900 flex items-center justify-center">
-              <p className="text-white/20">Visuals loading...</p>
-            </div>
           )}
           
+          {timer && timerPhase && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center pb-40 text-center pointer-events-none">
+              <p className="text-sm uppercase tracking-[0.3em] text-white/50 mb-3">
+                {timerPhase === 'warmup' ? 'The bell rings in' : 'Remaining'}
+              </p>
+              <p className="text-7xl font-extralight text-white/90 tabular-nums">
+                {timerPhase === 'warmup'
+                  ? Math.ceil(timer.sitStart - displayPosition)
+                  : formatTime(Math.ceil(timer.sitEnd - displayPosition))}
+              </p>
+            </div>
+          )}
+
           {/* Overlay Gradient */}
           <div className="absolute inset-0 bg-gradient-to-t from-slate-900 via-transparent to-slate-900/20 opacity-80"></div>
 
           {/* Audio Controls Overlay */}
           <div className="absolute bottom-0 left-0 right-0 p-8 flex flex-col gap-6 bg-gradient-to-t from-slate-900/90 to-transparent">
-            <h2 className="text-3xl font-light text-white tracking-wide">{session.title}</h2>
+            <div>
+              <h2 className="text-3xl font-light text-white tracking-wide">{session.title}</h2>
+              {session.targetMissed && session.params && (
+                <p className="mt-2 text-xs text-amber-200/80">
+                  Runs {formatTime(duration)}; the pauses couldn't be fitted to the {session.params.duration} minutes you asked for.
+                </p>
+              )}
+            </div>
             
             {/* Progress Bar */}
-            <div className="w-full bg-white/10 rounded-full h-1.5 overflow-hidden cursor-pointer" onClick={() => { /* Seek implementation optional */ }}>
-              <div 
-                className="bg-indigo-400 h-full transition-all duration-100 ease-linear shadow-[0_0_10px_rgba(129,140,248,0.5)]" 
-                style={{ width: `${progress}%` }} 
-              />
+            <div className="flex flex-col gap-2">
+              <div
+                ref={progressBarRef}
+                role="slider"
+                tabIndex={0}
+                aria-label="Seek"
+                aria-valuemin={0}
+                aria-valuemax={Math.round(duration)}
+                aria-valuenow={Math.round(displayPosition)}
+                aria-valuetext={`${formatTime(displayPosition)} of ${formatTime(duration)}`}
+                onPointerDown={handleScrubStart}
+                onPointerMove={handleScrubMove}
+                onPointerUp={handleScrubEnd}
+                onPointerCancel={() => setScrubPosition(null)}
+                onKeyDown={handleSeekKey}
+                className="group/seek py-2 -my-2 cursor-pointer touch-none focus:outline-none"
+              >
+                <div className="relative w-full bg-white/10 rounded-full h-1.5 group-focus-visible/seek:ring-2 group-focus-visible/seek:ring-indigo-400/60">
+                  {live && (
+                    <div className="absolute inset-y-0 left-0 bg-white/15 rounded-full transition-all duration-500" style={{ width: `${buffered}%` }} />
+                  )}
+                  <div 
+                    className={`relative bg-indigo-400 h-full rounded-full shadow-[0_0_10px_rgba(129,140,248,0.5)] ${scrubPosition === null ? 'transition-all duration-100 ease-linear' : ''}`}
+                    style={{ width: `${progress}%` }} 
+                  />
+                  <div
+                    className={`absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-3.5 h-3.5 bg-white rounded-full shadow transition-opacity ${scrubPosition === null ? 'opacity-0 group-hover/seek:opacity-100 group-focus-visible/seek:opacity-100' : 'opacity-100'}`}
+                    style={{ left: `${progress}%` }}
+                  />
+                </div>
+              </div>
+              <div className="flex justify-between text-xs text-white/60 tabular-nums">
+                <span>{formatTime(displayPosition)} / {live && !live.done ? '~' : ''}{formatTime(duration)}</span>
+                <span>{isBuffering ? 'Voicing the next passage...' : `-${formatTime(duration - displayPosition)}`}</span>
+              </div>
             </div>
 
             <div className="flex items-center justify-between">
                <div className="flex items-center gap-4">
                 <button 
                   onClick={togglePlay}
-                  className="w-14 h-14 flex items-center justify-center bg-white text-slate-900 rounded-full hover:scale-105 transition-transform shadow-lg shadow-white/10"
+                  disabled={!canPlay}
+                  className="w-14 h-14 flex items-center justify-center bg-white text-slate-900 rounded-full hover:scale-105 transition-transform shadow-lg shadow-white/10 disabled:opacity-40 disabled:hover:scale-100"
                 >
                   {isPlaying ? <Pause fill="currentColor" /> : <Play fill="currentColor" className="ml-1" />}
                 </button>
                 
-                <button onClick={() => { pauseAudio(); setProgress(0); startTimeRef.current = ctx.currentTime; }} className="p-2 text-white/70 hover:text-white transition-colors">
+                <button onClick={() => { pauseAudio(); seek(0); }} className="p-2 text-white/70 hover:text-white transition-colors">
                   <SkipBack className="w-6 h-6" />
                 </button>
                </div>
@@ -195,28 +669,64 @@ const MeditationPlayer: React.FC<Props> = ({ session, onReset }) => {
 
         {/* Right: Script & Details */}
         <div className="flex flex-col gap-6 h-full">
-          <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-3xl p-8 flex-1 overflow-y-auto custom-scrollbar">
-            <h3 className="text-xs font-bold uppercase tracking-widest text-indigo-400 mb-4">Meditation Script</h3>
-            <div className="prose prose-invert prose-lg max-w-none leading-loose text-slate-300">
-              {session.script.split('\n').map((line, i) => (
-                <p key={i} className="mb-4">{line}</p>
-              ))}
-            </div>
-          </div>
+          {onMoodAfter && checkIn === 'before' && (
+            <MoodCheckIn
+              prompt="How are you feeling before you begin?"
+              onRate={(mood) => { moodBeforeRef.current = mood; setCheckIn(null); }}
+              onDismiss={() => setCheckIn(null)}
+            />
+          )}
+          {onMoodAfter && checkIn === 'after' && (
+            <MoodCheckIn
+              prompt="And how do you feel now?"
+              onRate={(mood) => { onMoodAfter(mood); setCheckIn(null); }}
+              onDismiss={() => setCheckIn(null)}
+            />
+          )}
+
+          <ScriptPanel cues={cues} activeIndex={activeCue} isPlaying={isPlaying} isWriting={!!live?.writing} onSeek={seek} />
+
+          <SoundscapeMixer levels={ambientLevels} onChange={handleAmbientChange} />
           
           <div className="flex gap-4">
             <Button variant="secondary" onClick={onReset} className="flex-1">
               <RefreshCw className="w-4 h-4" />
               New Session
             </Button>
-            <Button variant="ghost" className="flex-1 border border-slate-700">
-              <Download className="w-4 h-4" />
-              Save Script
-            </Button>
+            {onInsertBreathing && (
+              <BreathingInsertMenu
+                disabled={!session.audioBuffer}
+                onInsert={handleInsertBreathing}
+              />
+            )}
+            {onEditScript && (
+              <Button
+                variant="ghost"
+                className="border border-slate-700"
+                onClick={onEditScript}
+                disabled={!session.audioBuffer}
+                title={session.audioBuffer ? 'Edit the script and re-voice what changed' : 'Available once the audio is complete'}
+              >
+                <PenLine className="w-4 h-4" />
+              </Button>
+            )}
+            <SleepMenu settings={sleep} onChange={handleSleepChange} remaining={sleep.timerMinutes ? sleepRemaining : undefined} />
+            <ExportMenu session={session} />
           </div>
         </div>
 
       </div>
+
+      {dimmed && (
+        <div
+          onClick={() => setDimmed(false)}
+          className="fixed inset-0 z-[70] bg-black flex flex-col items-center justify-center gap-4 cursor-pointer select-none animate-in fade-in duration-1000"
+        >
+          <Moon className="w-6 h-6 text-slate-700" />
+          <p className="text-2xl font-extralight text-slate-600 tabular-nums">{formatTime(Math.ceil(sleepRemaining))}</p>
+          <p className="text-xs text-slate-800">Tap to wake</p>
+        </div>
+      )}
     </div>
   );
 };
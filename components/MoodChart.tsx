@@ -0,0 +1,68 @@
+import React from 'react';
+import { MOOD_LEVELS, MoodPoint } from '../services/insights';
+import { formatDate } from '../utils/format';
+
+interface Props {
+  points: MoodPoint[];
+}
+
+const WIDTH = 600;
+const HEIGHT = 220;
+const PAD = { top: 16, right: 16, bottom: 28, left: 56 };
+
+// Mood before and after each session, oldest on the left. A rising stroke
+// from the hollow dot (before) to the filled dot (after) means it helped.
+const MoodChart: React.FC<Props> = ({ points }) => {
+  const plotWidth = WIDTH - PAD.left - PAD.right;
+  const plotHeight = HEIGHT - PAD.top - PAD.bottom;
+  const x = (i: number) => PAD.left + (points.length > 1 ? (i / (points.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (mood: number) => PAD.top + ((5 - mood) / 4) * plotHeight;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Mood before and after each session">
+      {MOOD_LEVELS.map(({ value, label }) => (
+        <g key={value}>
+          <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(value)} y2={y(value)} stroke="rgba(255,255,255,0.06)" />
+          <text x={PAD.left - 10} y={y(value)} textAnchor="end" dominantBaseline="middle" className="fill-slate-500 text-[11px]">
+            {label}
+          </text>
+        </g>
+      ))}
+
+      <polyline
+        points={points.map((p, i) => `${x(i)},${y(p.after)}`).join(' ')}
+        fill="none"
+        stroke="rgba(129,140,248,0.35)"
+        strokeWidth={1.5}
+      />
+
+      {points.map((p, i) => (
+        <g key={p.at}>
+          <line
+            x1={x(i)} x2={x(i)} y1={y(p.before)} y2={y(p.after)}
+            stroke={p.after > p.before ? '#34d399' : p.after < p.before ? '#fb7185' : '#94a3b8'}
+            strokeWidth={2}
+          />
+          <circle cx={x(i)} cy={y(p.before)} r={4} fill="#0f172a" stroke="#94a3b8" strokeWidth={1.5} />
+          <circle cx={x(i)} cy={y(p.after)} r={4.5} fill="#818cf8" />
+          <title>{`${formatDate(p.at)}: ${p.before} → ${p.after}`}</title>
+        </g>
+      ))}
+
+      {points.length > 0 && (
+        <>
+          <text x={x(0)} y={HEIGHT - 6} textAnchor={points.length > 1 ? 'start' : 'middle'} className="fill-slate-500 text-[11px]">
+            {formatDate(points[0].at)}
+          </text>
+          {points.length > 1 && (
+            <text x={x(points.length - 1)} y={HEIGHT - 6} textAnchor="end" className="fill-slate-500 text-[11px]">
+              {formatDate(points[points.length - 1].at)}
+            </text>
+          )}
+        </>
+      )}
+    </svg>
+  );
+};
+
+export default MoodChart;
\ No newline at end of file
@@ -0,0 +1,35 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { MOOD_LEVELS } from '../services/insights';
+
+interface Props {
+  prompt: string;
+  onRate: (value: number) => void;
+  onDismiss: () => void;
+}
+
+// A one-tap mood rating, asked before and after a session
+const MoodCheckIn: React.FC<Props> = ({ prompt, onRate, onDismiss }) => (
+  <div className="bg-slate-800/50 backdrop-blur-xl border border-slate-700 rounded-2xl px-4 py-3 animate-in fade-in">
+    <div className="flex items-center justify-between mb-2">
+      <p className="text-sm text-slate-300">{prompt}</p>
+      <button onClick={onDismiss} className="text-slate-500 hover:text-white transition-colors" title="Skip">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+    <div className="grid grid-cols-5 gap-2">
+      {MOOD_LEVELS.map(({ value, label }) => (
+        <button
+          key={value}
+          onClick={() => onRate(value)}
+          className="flex flex-col items-center gap-1 py-2 rounded-xl text-xs bg-slate-900/50 text-slate-400 hover:text-white hover:bg-indigo-600 transition-all"
+        >
+          <span className="text-base font-medium tabular-nums">{value}</span>
+          {label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default MoodCheckIn;
\ No newline at end of file
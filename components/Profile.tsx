@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import { Flame, Clock, Trophy, Activity, FileDown, FileJson, LineChart } from 'lucide-react';
+import Button from './Button';
+import MoodChart from './MoodChart';
+import { computeInsights, listPractice, practiceToCSV, practiceToJSON } from '../services/insights';
+import { downloadBlob } from '../services/bundle';
+import { formatDate } from '../utils/format';
+import { PracticeRecord } from '../types';
+
+interface Props {
+  onCreate: () => void;
+}
+
+const formatChange = (change: number) => `${change > 0 ? '+' : ''}${change.toFixed(1)}`;
+
+const formatMinutes = (minutes: number) =>
+  minutes >= 90 ? `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m` : `${Math.round(minutes)} min`;
+
+const Profile: React.FC<Props> = ({ onCreate }) => {
+  const [records, setRecords] = useState<PracticeRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [focus, setFocus] = useState<string | null>(null);
+
+  useEffect(() => {
+    listPractice()
+      .then(setRecords)
+      .catch((e) => {
+        console.error(e);
+        setError('Could not open your practice history.');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const insights = computeInsights(records);
+  // Charted: the chosen focus, or the most practised one that has check-ins
+  const trend = insights.byFocus.find((t) => t.focus === focus)
+    ?? insights.byFocus.find((t) => t.points.length)
+    ?? insights.byFocus[0];
+  const recent = records.slice(-8).reverse();
+
+  const exportAs = (format: 'csv' | 'json') => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'csv') downloadBlob(new Blob([practiceToCSV(records)], { type: 'text/csv' }), `zengen-practice-${stamp}.csv`);
+    else downloadBlob(new Blob([practiceToJSON(records)], { type: 'application/json' }), `zengen-practice-${stamp}.json`);
+  };
+
+  const stats = [
+    { icon: Flame, label: 'Current streak', value: `${insights.currentStreak} ${insights.currentStreak === 1 ? 'day' : 'days'}`, hint: insights.currentStreak && !insights.practicedToday ? 'Sit today to keep it going' : undefined },
+    { icon: Trophy, label: 'Longest streak', value: `${insights.longestStreak} ${insights.longestStreak === 1 ? 'day' : 'days'}` },
+    { icon: Clock, label: 'Time meditated', value: formatMinutes(insights.totalMinutes) },
+    { icon: Activity, label: 'Sessions', value: String(insights.sessions) },
+  ];
+
+  return (
+    <div className="max-w-5xl mx-auto w-full animate-in fade-in duration-700">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-6 mb-8">
+        <div>
+          <h2 className="text-4xl font-light tracking-tight text-white mb-2">Your Practice</h2>
+          <p className="text-slate-400 font-light">Worked out on this device from the sessions you've finished.</p>
+        </div>
+        <div className="flex gap-3">
+          <Button variant="secondary" onClick={() => exportAs('csv')} disabled={!records.length}>
+            <FileDown className="w-4 h-4" />
+            CSV
+          </Button>
+          <Button variant="secondary" onClick={() => exportAs('json')} disabled={!records.length}>
+            <FileJson className="w-4 h-4" />
+            JSON
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="text-rose-400 mb-6">{error}</p>}
+
+      {!isLoading && !records.length && !error && (
+        <div className="bg-slate-800/50 backdrop-blur-xl border border-slate-700 rounded-3xl p-12 text-center">
+          <LineChart className="w-10 h-10 text-indigo-400 mx-auto mb-4" />
+          <p className="text-slate-300 mb-6">Finish a session and your streaks, minutes and mood check-ins will show up here.</p>
+          <Button onClick={onCreate} className="mx-auto">Start a session</Button>
+        </div>
+      )}
+
+      {records.length > 0 && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {stats.map(({ icon: Icon, label, value, hint }) => (
+              <div key={label} className="bg-slate-800/50 border border-slate-700 rounded-3xl p-5">
+                <Icon className="w-5 h-5 text-indigo-400 mb-3" />
+                <p className="text-2xl font-light text-white tabular-nums">{value}</p>
+                <p className="text-sm text-slate-400">{label}</p>
+                {hint && <p className="text-xs text-amber-300/80 mt-1">{hint}</p>}
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-slate-800/50 border border-slate-700 rounded-3xl p-6">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <h3 className="text-lg font-medium text-white">Mood before and after</h3>
+              <div className="flex flex-wrap gap-2">
+                {insights.byFocus.map((t) => (
+                  <button
+                    key={t.focus}
+                    onClick={() => setFocus(t.focus)}
+                    className={`px-3 py-1.5 rounded-full text-xs border transition-all ${
+                      trend?.focus === t.focus ? 'bg-indigo-500/20 border-indigo-500 text-white' : 'border-slate-700 text-slate-400 hover:text-white'
+                    }`}
+                  >
+                    {t.focus}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {trend && trend.points.length ? (
+              <MoodChart points={trend.points} />
+            ) : (
+              <p className="text-sm text-slate-500 py-10 text-center">
+                Rate how you feel before and after a session to see how {trend?.focus.toLowerCase() ?? 'it'} sessions change your mood.
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-slate-800/50 border border-slate-700 rounded-3xl p-6">
+              <h3 className="text-lg font-medium text-white mb-4">By focus</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-500">
+                    <th className="font-normal pb-2">Focus</th>
+                    <th className="font-normal pb-2 text-right">Sessions</th>
+                    <th className="font-normal pb-2 text-right">Time</th>
+                    <th className="font-normal pb-2 text-right">Mood change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {insights.byFocus.map((t) => (
+                    <tr key={t.focus} className="border-t border-slate-700/60 text-slate-300">
+                      <td className="py-2 pr-2">{t.focus}</td>
+                      <td className="py-2 text-right tabular-nums">{t.sessions}</td>
+                      <td className="py-2 text-right tabular-nums">{formatMinutes(t.minutes)}</td>
+                      <td className={`py-2 text-right tabular-nums ${
+                        t.averageChange === undefined ? 'text-slate-500' : t.averageChange > 0 ? 'text-emerald-400' : t.averageChange < 0 ? 'text-rose-400' : ''
+                      }`}>
+                        {t.averageChange === undefined ? '–' : formatChange(t.averageChange)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="bg-slate-800/50 border border-slate-700 rounded-3xl p-6">
+              <h3 className="text-lg font-medium text-white mb-4">Recent sessions</h3>
+              <ul className="space-y-3">
+                {recent.map((r) => (
+                  <li key={r.id} className="flex items-center gap-3 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-slate-200 truncate">{r.title}</p>
+                      <p className="text-xs text-slate-500 truncate">
+                        {formatDate(r.completedAt)} · {formatMinutes(r.minutes)}{r.mood && ` · ${r.mood}`}
+                      </p>
+                    </div>
+                    {r.moodBefore !== undefined && r.moodAfter !== undefined && (
+                      <span className="text-xs text-slate-400 tabular-nums shrink-0">{r.moodBefore} → {r.moodAfter}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Profile;
\ No newline at end of file
@@ -0,0 +1,246 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, Hourglass, Loader2, Mic2, Plus, RotateCcw, Trash2, Wand2, Wind } from 'lucide-react';
+import Button from './Button';
+import { isLineVoiced, rewriteScriptLine } from '../services/meditation';
+import { toGenerationError } from '../services/errors';
+import { loadCacheIndex } from '../services/cache';
+import { formatPauseMarker, parseScript, stripPauseMarkers, totalPauseSeconds } from '../utils/script';
+import { countWords } from '../utils/pacing';
+import { formatTime } from '../utils/format';
+import { VoiceSettings } from '../types';
+
+interface Props {
+  title: string;
+  script: string;
+  settings: VoiceSettings;
+  onVoice: (script: string) => void;
+  onCancel: () => void;
+}
+
+// One line of the script. `original` is the line as it came in, for Revert.
+interface Line {
+  id: number;
+  text: string;
+  original: string;
+}
+
+const REWRITE_PRESETS = ['Make this gentler', 'Make this shorter', 'Add more imagery', 'Simpler words'];
+const DEFAULT_PAUSE_SECONDS = 10;
+const MAX_PAUSE_SECONDS = 300;
+
+let nextId = 0;
+const toLine = (text: string, original = text): Line => ({ id: nextId++, text, original });
+
+// A line that is nothing but one marker is edited as a pause or breathing block
+const blockKind = (text: string) => {
+  const parts = parseScript(text);
+  if (parts.length !== 1 || stripPauseMarkers(text)) return 'speech';
+  return parts[0].kind;
+};
+
+const ScriptEditor: React.FC<Props> = ({ title, script, settings, onVoice, onCancel }) => {
+  const [lines, setLines] = useState<Line[]>(() => script.split('\n').filter((line) => line.trim()).map((line) => toLine(line.trim())));
+  // Blank lines and stray spaces aren't edits
+  const [unedited] = useState(() => lines.map((line) => line.text).join('\n'));
+  // The line whose rewrite instruction is open, and any in flight
+  const [rewriting, setRewriting] = useState<{ id: number; instruction: string; busy: boolean; error?: string } | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Speech cached on earlier visits counts as voiced once the index is read
+  const [, setCacheReady] = useState(false);
+
+  useEffect(() => {
+    loadCacheIndex().then(() => setCacheReady(true), () => {});
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  const edited = lines.map((line) => line.text).join('\n');
+  const isChanged = edited !== unedited;
+  const speechLines = lines.filter((line) => blockKind(line.text) === 'speech');
+  const unvoiced = speechLines.filter((line) => !isLineVoiced(line.text, settings)).length;
+  // Marked per line only when some of the script already has a voice
+  const showChanges = unvoiced < speechLines.length;
+
+  const update = (id: number, text: string) =>
+    setLines((current) => current.map((line) => (line.id === id ? { ...line, text } : line)));
+
+  const remove = (id: number) => setLines((current) => current.filter((line) => line.id !== id));
+
+  const insertPause = (index: number) =>
+    setLines((current) => [...current.slice(0, index + 1), toLine(formatPauseMarker(DEFAULT_PAUSE_SECONDS), ''), ...current.slice(index + 1)]);
+
+  const rewrite = async (line: Line, instruction: string) => {
+    if (!instruction.trim()) return;
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRewriting({ id: line.id, instruction, busy: true });
+    try {
+      const text = await rewriteScriptLine(line.text, instruction.trim(), edited, settings, controller.signal);
+      update(line.id, text);
+      setRewriting(null);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      setRewriting({ id: line.id, instruction, busy: false, error: toGenerationError(error).message });
+    }
+  };
+
+  const renderMarker = (line: Line, index: number) => {
+    const part = parseScript(line.text)[0];
+    return (
+      <div className="flex items-center gap-3 px-4 py-2 rounded-2xl border border-dashed border-slate-700 text-sm text-slate-400">
+        {part.kind === 'pause' ? (
+          <>
+            <Hourglass className="w-4 h-4 text-emerald-400" />
+            <span>Silence for</span>
+            <input
+              type="number"
+              min={1}
+              max={MAX_PAUSE_SECONDS}
+              aria-label="Pause length in seconds"
+              value={Math.round(part.seconds)}
+              onChange={(e) => {
+                const seconds = Math.round(Number(e.target.value));
+                if (seconds > 0) update(line.id, formatPauseMarker(Math.min(MAX_PAUSE_SECONDS, seconds)));
+              }}
+              className="w-16 bg-slate-900/50 border border-slate-700 rounded-lg px-2 py-1 text-center text-white focus:outline-none focus:border-indigo-500"
+            />
+            <span>seconds</span>
+          </>
+        ) : (
+          <>
+            <Wind className="w-4 h-4 text-sky-400" />
+            <span>Breathing exercise <span className="text-slate-500">{line.text}</span></span>
+          </>
+        )}
+        <button onClick={() => remove(line.id)} className="ml-auto text-slate-500 hover:text-rose-400" title="Remove">
+          <Trash2 className="w-4 h-4" />
+        </button>
+        {renderInsert(index)}
+      </div>
+    );
+  };
+
+  const renderInsert = (index: number) => (
+    <button onClick={() => insertPause(index)} className="text-slate-500 hover:text-white" title="Insert a pause after this">
+      <Plus className="w-4 h-4" />
+    </button>
+  );
+
+  const renderSpeech = (line: Line, index: number) => {
+    const changed = showChanges && !isLineVoiced(line.text, settings);
+    const open = rewriting?.id === line.id ? rewriting : null;
+    return (
+      <div className={`rounded-2xl border p-3 transition-colors ${changed ? 'border-amber-500/40 bg-amber-500/5' : 'border-slate-700 bg-slate-900/40'}`}>
+        <textarea
+          value={line.text}
+          onChange={(e) => update(line.id, e.target.value.replace(/\n+/g, ' '))}
+          rows={Math.max(2, Math.ceil(line.text.length / 80))}
+          disabled={open?.busy}
+          className="w-full bg-transparent resize-none text-slate-200 leading-relaxed focus:outline-none disabled:opacity-50"
+        />
+        <div className="flex items-center gap-3 text-xs text-slate-500">
+          {changed && <span className="text-amber-300/80">Will be voiced</span>}
+          <button
+            onClick={() => setRewriting(open ? null : { id: line.id, instruction: '', busy: false })}
+            disabled={open?.busy}
+            className="flex items-center gap-1 hover:text-white"
+          >
+            {open?.busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Wand2 className="w-3.5 h-3.5" />}
+            Rewrite
+          </button>
+          {line.original && line.text !== line.original && (
+            <button onClick={() => update(line.id, line.original)} className="flex items-center gap-1 hover:text-white">
+              <RotateCcw className="w-3.5 h-3.5" />
+              Revert
+            </button>
+          )}
+          <span className="ml-auto flex items-center gap-3">
+            <button onClick={() => remove(line.id)} className="hover:text-rose-400" title="Remove this paragraph">
+              <Trash2 className="w-4 h-4" />
+            </button>
+            {renderInsert(index)}
+          </span>
+        </div>
+
+        {open && !open.busy && (
+          <div className="mt-3 space-y-2 animate-in fade-in">
+            <div className="flex flex-wrap gap-2">
+              {REWRITE_PRESETS.map((preset) => (
+                <button
+                  key={preset}
+                  onClick={() => rewrite(line, preset)}
+                  className="px-3 py-1 rounded-full border border-slate-700 text-xs text-slate-300 hover:border-indigo-500 hover:text-white"
+                >
+                  {preset}
+                </button>
+              ))}
+            </div>
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                rewrite(line, open.instruction);
+              }}
+            >
+              <input
+                autoFocus
+                type="text"
+                placeholder="Or say how, e.g. mention the sound of rain"
+                value={open.instruction}
+                onChange={(e) => setRewriting({ ...open, instruction: e.target.value })}
+                className="flex-1 min-w-0 bg-slate-900/50 border border-slate-700 rounded-full px-4 py-1.5 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-indigo-500"
+              />
+              <Button type="submit" variant="secondary" className="!px-4 !py-1.5 text-sm" disabled={!open.instruction.trim()}>
+                Rewrite
+              </Button>
+            </form>
+            {open.error && <p className="text-xs text-rose-400">{open.error}</p>}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto w-full animate-in fade-in duration-700">
+      <div className="mb-8">
+        <h2 className="text-4xl font-light tracking-tight text-white mb-2">{title || 'Your script'}</h2>
+        <p className="text-slate-400 font-light">
+          Adjust the wording, add pauses, or have a paragraph rewritten. Once you change anything, pauses are kept exactly as you set them.
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex justify-end">
+          <button onClick={() => insertPause(-1)} className="flex items-center gap-1 text-xs text-slate-500 hover:text-white">
+            <Plus className="w-3.5 h-3.5" /> Pause at the start
+          </button>
+        </div>
+        {lines.map((line, index) => (
+          <React.Fragment key={line.id}>
+            {blockKind(line.text) === 'speech' ? renderSpeech(line, index) : renderMarker(line, index)}
+          </React.Fragment>
+        ))}
+      </div>
+
+      <div className="sticky bottom-4 mt-8 flex flex-wrap items-center gap-4 bg-slate-900/90 backdrop-blur-xl border border-slate-700 rounded-3xl px-6 py-4">
+        <p className="text-sm text-slate-400 tabular-nums">
+          {countWords(stripPauseMarkers(edited), settings.language)} words · {formatTime(totalPauseSeconds(edited))} of silence
+        </p>
+        <div className="flex gap-3 ml-auto">
+          <Button variant="ghost" onClick={onCancel}>
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Button>
+          <Button onClick={() => onVoice(isChanged ? edited : script)} disabled={!speechLines.length || rewriting?.busy}>
+            <Mic2 className="w-4 h-4" />
+            {!showChanges ? 'Voice this script' : unvoiced ? `Voice ${unvoiced} changed ${unvoiced === 1 ? 'paragraph' : 'paragraphs'}` : isChanged ? 'Apply changes' : 'Done'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScriptEditor;
\ No newline at end of file
@@ -0,0 +1,88 @@
+import React, { useEffect, useRef } from 'react';
+import { ScriptCue } from '../types';
+
+interface Props {
+  cues: ScriptCue[];
+  activeIndex: number;
+  isPlaying: boolean;
+  isWriting?: boolean; // more script is still streaming in
+  onSeek: (seconds: number) => void;
+}
+
+// After the reader scrolls by hand, leave the view alone for a while
+const MANUAL_SCROLL_GRACE_MS = 4000;
+
+const ScriptPanel: React.FC<Props> = ({ cues, activeIndex, isPlaying, isWriting, onSeek }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const lastManualScrollRef = useRef(0);
+  // Untimed sentences have no audio yet; dim them once some of the script has
+  const hasTimings = cues.some((cue) => cue.end > 0);
+
+  // Keep the spoken sentence centred while audio plays
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !isPlaying || activeIndex < 0) return;
+    if (Date.now() - lastManualScrollRef.current < MANUAL_SCROLL_GRACE_MS) return;
+
+    const el = container.querySelector<HTMLElement>(`[data-cue="${activeIndex}"]`);
+    if (!el) return;
+    container.scrollTo({
+      top: el.offsetTop - container.clientHeight / 2 + el.offsetHeight / 2,
+      behavior: 'smooth',
+    });
+  }, [activeIndex, isPlaying]);
+
+  const markManualScroll = () => {
+    lastManualScrollRef.current = Date.now();
+  };
+
+  // Group sentences back into their original paragraphs
+  const paragraphs: { cue: ScriptCue; index: number }[][] = [];
+  cues.forEach((cue, index) => {
+    (paragraphs[cue.paragraph] ||= []).push({ cue, index });
+  });
+
+  return (
+    <div
+      ref={containerRef}
+      onWheel={markManualScroll}
+      onTouchMove={markManualScroll}
+      className="relative bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-3xl p-8 flex-1 overflow-y-auto custom-scrollbar"
+    >
+      <h3 className="text-xs font-bold uppercase tracking-widest text-indigo-400 mb-4">Meditation Script</h3>
+      <div className="prose prose-invert prose-lg max-w-none leading-loose text-slate-300">
+        {paragraphs.filter(Boolean).map((sentences, p, all) => (
+          <p key={p} className="mb-4">
+            {sentences.map(({ cue, index }) => {
+              const isActive = index === activeIndex;
+              const seekable = cue.end > 0;
+              return (
+                <span
+                  key={index}
+                  data-cue={index}
+                  role={seekable ? 'button' : undefined}
+                  tabIndex={seekable ? 0 : undefined}
+                  aria-current={isActive ? 'true' : undefined}
+                  onClick={seekable ? () => onSeek(cue.start) : undefined}
+                  onKeyDown={seekable ? (e) => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); onSeek(cue.start); } } : undefined}
+                  className={`rounded-md px-0.5 -mx-0.5 transition-colors duration-500 ${
+                    isActive
+                      ? 'bg-indigo-500/20 text-white'
+                      : activeIndex >= 0 && index < activeIndex ? 'text-slate-400' : hasTimings && !seekable ? 'text-slate-500' : ''
+                  } ${seekable ? 'cursor-pointer hover:text-white focus:outline-none focus-visible:ring-1 focus-visible:ring-indigo-400' : ''}`}
+                >
+                  {cue.text}{' '}
+                </span>
+              );
+            })}
+            {isWriting && p === all.length - 1 && (
+              <span className="inline-block w-1.5 h-4 align-middle bg-indigo-400/70 animate-pulse" aria-hidden="true" />
+            )}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ScriptPanel;
\ No newline at end of file
@@ -0,0 +1,180 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Search, Play, Pencil, Trash2, Check, X, Library, Upload } from 'lucide-react';
+import { SavedSession } from '../types';
+import { listSessions, renameSession, deleteSession, matchesQuery } from '../services/library';
+import { formatTime, formatDate } from '../utils/format';
+import Button from './Button';
+
+interface Props {
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onImport: (files: File[]) => void;
+}
+
+const SessionLibrary: React.FC<Props> = ({ onOpen, onCreate, onImport }) => {
+  const [sessions, setSessions] = useState<SavedSession[]>([]);
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      setSessions(await listSessions());
+      setError('');
+    } catch (e) {
+      console.error(e);
+      setError('Could not open your saved sessions.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const startRename = (session: SavedSession) => {
+    setEditingId(session.id);
+    setEditTitle(session.title);
+  };
+
+  const commitRename = async () => {
+    if (!editingId) return;
+    const title = editTitle.trim();
+    if (title) {
+      try {
+        await renameSession(editingId, title);
+        await refresh();
+      } catch (e) {
+        console.error(e);
+        setError('Could not rename that session.');
+      }
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = async (session: SavedSession) => {
+    if (!window.confirm(`Delete "${session.title}"? This cannot be undone.`)) return;
+    try {
+      await deleteSession(session.id);
+      await refresh();
+    } catch (e) {
+      console.error(e);
+      setError('Could not delete that session.');
+    }
+  };
+
+  const visible = sessions.filter((s) => matchesQuery(s, query));
+
+  return (
+    <div className="max-w-5xl mx-auto w-full animate-in fade-in duration-700">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-6 mb-8">
+        <div>
+          <h2 className="text-4xl font-light tracking-tight text-white mb-2">My Sessions</h2>
+          <p className="text-slate-400 font-light">Every meditation you generate is kept here, ready to replay.</p>
+        </div>
+        <div className="flex gap-3 w-full md:w-auto">
+          <div className="relative flex-1 md:w-72">
+            <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+            <input
+              type="text"
+              placeholder="Search sessions..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="w-full bg-slate-900/50 border border-slate-700 rounded-2xl pl-11 pr-4 py-3 text-white placeholder-slate-600 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-all"
+            />
+          </div>
+          <Button variant="secondary" onClick={() => fileInputRef.current?.click()} title="Import an exported session">
+            <Upload className="w-4 h-4" />
+            Import
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept=".zip,.json,.wav,image/*"
+            className="hidden"
+            onChange={(e) => {
+              const files = Array.from(e.target.files || []);
+              e.target.value = '';
+              if (files.length) onImport(files);
+            }}
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-rose-400 mb-6">{error}</p>}
+
+      {!isLoading && sessions.length === 0 && !error && (
+        <div className="bg-slate-800/50 backdrop-blur-xl border border-slate-700 rounded-3xl p-12 text-center">
+          <Library className="w-10 h-10 text-indigo-400 mx-auto mb-4" />
+          <p className="text-slate-300 mb-6">You haven't generated any sessions yet.</p>
+          <Button onClick={onCreate} className="mx-auto">Create your first session</Button>
+        </div>
+      )}
+
+      {sessions.length > 0 && visible.length === 0 && (
+        <p className="text-slate-400 text-center py-12">No sessions match "{query}".</p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+        {visible.map((session) => (
+          <div key={session.id} className="bg-slate-800/50 border border-slate-700 rounded-3xl overflow-hidden flex flex-col group">
+            <button onClick={() => onOpen(session.id)} className="relative h-40 bg-gradient-to-br from-indigo-900 to-slate-900">
+              {session.imageUrl && (
+                <img src={session.imageUrl} alt={session.imagePrompt} className="w-full h-full object-cover" />
+              )}
+              <div className="absolute inset-0 bg-slate-900/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
+                <Play className="w-10 h-10 text-white" fill="currentColor" />
+              </div>
+            </button>
+
+            <div className="p-5 flex flex-col gap-2 flex-1">
+              {editingId === session.id ? (
+                <div className="flex gap-2">
+                  <input
+                    autoFocus
+                    value={editTitle}
+                    onChange={(e) => setEditTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-xl px-3 py-1.5 text-sm text-white focus:outline-none focus:border-indigo-500"
+                  />
+                  <button onClick={commitRename} className="text-emerald-400 hover:text-emerald-300"><Check className="w-4 h-4" /></button>
+                  <button onClick={() => setEditingId(null)} className="text-slate-400 hover:text-white"><X className="w-4 h-4" /></button>
+                </div>
+              ) : (
+                <h3 className="text-lg font-medium text-white leading-snug">{session.title}</h3>
+              )}
+
+              <p className="text-xs text-slate-500">
+                {formatDate(session.createdAt)}
+                {session.audioDuration !== undefined && ` · ${formatTime(session.audioDuration)}`}
+                {session.params?.focus && ` · ${session.params.focus}`}
+              </p>
+
+              <div className="flex items-center gap-1 mt-auto pt-2">
+                <Button variant="ghost" className="!px-3 !py-1.5 text-sm" onClick={() => onOpen(session.id)}>
+                  <Play className="w-4 h-4" /> Play
+                </Button>
+                <Button variant="ghost" className="!px-3 !py-1.5 text-sm" onClick={() => startRename(session)}>
+                  <Pencil className="w-4 h-4" /> Rename
+                </Button>
+                <Button variant="ghost" className="!px-3 !py-1.5 text-sm ml-auto hover:!text-rose-400" onClick={() => handleDelete(session)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SessionLibrary;
\ No newline at end of file
@@ -0,0 +1,88 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Moon } from 'lucide-react';
+import Button from './Button';
+import { SleepSettings } from '../types';
+import { SLEEP_FADE_CHOICES, SLEEP_TIMER_CHOICES } from '../utils/sleep';
+import { formatTime } from '../utils/format';
+
+interface Props {
+  settings: SleepSettings;
+  onChange: (settings: SleepSettings) => void;
+  remaining?: number; // seconds until the sleep timer stops playback
+}
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1 rounded-full border text-xs transition-colors ${
+    active ? 'border-indigo-500 bg-indigo-500/20 text-white' : 'border-slate-700 text-slate-400 hover:text-white'
+  }`;
+
+// Sleep mode: fade out, a sleep timer and a dimmed screen
+const SleepMenu: React.FC<Props> = ({ settings, onChange, remaining }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 right-0 w-80 bg-slate-900/95 backdrop-blur-xl border border-slate-700 rounded-2xl shadow-2xl p-4 space-y-4 z-20 animate-in fade-in slide-in-from-bottom-2">
+          <label className="flex items-center gap-3 text-sm text-slate-200 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+              className="accent-indigo-500"
+            />
+            Sleep mode
+            <span className="ml-auto text-xs text-slate-500">Dims the screen</span>
+          </label>
+
+          <div className={`space-y-4 ${settings.enabled ? '' : 'opacity-40 pointer-events-none'}`}>
+            <div className="space-y-2">
+              <p className="text-xs uppercase tracking-wider text-slate-500">Stop after</p>
+              <div className="flex flex-wrap gap-2">
+                {SLEEP_TIMER_CHOICES.map((minutes) => (
+                  <button key={minutes} onClick={() => onChange({ ...settings, timerMinutes: minutes })} className={chipClass(settings.timerMinutes === minutes)}>
+                    {minutes ? `${minutes} min` : 'Session end'}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-slate-500">A timer longer than the session carries on with the soundscape alone.</p>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-xs uppercase tracking-wider text-slate-500">Fade out over</p>
+              <div className="flex flex-wrap gap-2">
+                {SLEEP_FADE_CHOICES.map((minutes) => (
+                  <button key={minutes} onClick={() => onChange({ ...settings, fadeMinutes: minutes })} className={chipClass(settings.fadeMinutes === minutes)}>
+                    {minutes} min
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+      <Button
+        variant="ghost"
+        className={`border ${settings.enabled ? 'border-indigo-500/60 text-indigo-300' : 'border-slate-700'}`}
+        onClick={() => setIsOpen(!isOpen)}
+        title="Sleep mode"
+      >
+        <Moon className="w-4 h-4" />
+        {settings.enabled && remaining !== undefined && <span className="text-xs tabular-nums">{formatTime(remaining)}</span>}
+      </Button>
+    </div>
+  );
+};
+
+export default SleepMenu;
\ No newline at end of file
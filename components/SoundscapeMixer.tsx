@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { Waves, ChevronDown } from 'lucide-react';
+import { AmbientLayerId, AmbientLevels } from '../types';
+import { AMBIENT_LAYERS } from '../utils/ambient';
+
+interface Props {
+  levels: AmbientLevels;
+  onChange: (id: AmbientLayerId, level: number) => void;
+}
+
+const SoundscapeMixer: React.FC<Props> = ({ levels, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const activeCount = AMBIENT_LAYERS.filter(({ id }) => levels[id] > 0).length;
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-3xl overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-6 py-4 text-left"
+      >
+        <span className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-indigo-400">
+          <Waves className="w-4 h-4" />
+          Soundscape
+        </span>
+        <span className="flex items-center gap-2 text-xs text-slate-500">
+          {activeCount ? `${activeCount} layer${activeCount > 1 ? 's' : ''}` : 'Off'}
+          <ChevronDown className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="px-6 pb-5 grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3 animate-in fade-in">
+          {AMBIENT_LAYERS.map(({ id, label }) => (
+            <label key={id} className="flex items-center justify-between gap-3 text-sm text-slate-300">
+              <span className={levels[id] > 0 ? 'text-white' : ''}>{label}</span>
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.01"
+                value={levels[id]}
+                onChange={(e) => onChange(id, parseFloat(e.target.value))}
+                className="w-28 h-1 bg-white/20 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-indigo-300"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SoundscapeMixer;
\ No newline at end of file
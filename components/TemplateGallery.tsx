@@ -0,0 +1,125 @@
+import React, { useState, useEffect } from 'react';
+import { Check, Clock, LayoutGrid, Link2, Mic2, Music, SlidersHorizontal, Trash2 } from 'lucide-react';
+import Button from './Button';
+import { CURATED_TEMPLATES, deleteTemplate, listTemplates, templateLink } from '../services/templates';
+import { AMBIENT_LAYERS } from '../utils/ambient';
+import { SessionTemplate } from '../types';
+
+interface Props {
+  onUse: (template: SessionTemplate) => void; // fill in the form
+  onGenerate: (template: SessionTemplate) => void;
+}
+
+const soundscapeLabel = (template: SessionTemplate) => {
+  const layers = AMBIENT_LAYERS.filter(({ id }) => (template.ambient?.[id] ?? 0) > 0).map(({ label }) => label);
+  return layers.length ? layers.join(' + ') : 'Silence';
+};
+
+const TemplateGallery: React.FC<Props> = ({ onUse, onGenerate }) => {
+  const [templates, setTemplates] = useState<SessionTemplate[]>([]);
+  const [error, setError] = useState('');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setTemplates(await listTemplates());
+    } catch (e) {
+      console.error(e);
+      setError('Could not open your saved templates.');
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleShare = async (template: SessionTemplate) => {
+    const link = templateLink(template);
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopiedId(template.id);
+      setTimeout(() => setCopiedId((id) => (id === template.id ? null : id)), 2000);
+    } catch {
+      // Clipboard access can be refused; let the user copy it by hand
+      window.prompt('Copy this link to share the template:', link);
+    }
+  };
+
+  const handleDelete = async (template: SessionTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"?`)) return;
+    try {
+      await deleteTemplate(template.id);
+      await refresh();
+    } catch (e) {
+      console.error(e);
+      setError('Could not delete that template.');
+    }
+  };
+
+  const renderCard = (template: SessionTemplate) => (
+    <div key={template.id} className="bg-slate-800/50 border border-slate-700 rounded-3xl p-6 flex flex-col gap-3">
+      <div>
+        <h3 className="text-lg font-medium text-white leading-snug">{template.name}</h3>
+        {template.description && <p className="text-sm text-slate-400 mt-1">{template.description}</p>}
+      </div>
+
+      <p className="text-sm text-slate-300">
+        <span className="text-slate-500">Feeling</span> {template.params.mood || '—'}
+        <span className="text-slate-500"> · Focus</span> {template.params.focus || '—'}
+      </p>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-400">
+        <span className="flex items-center gap-1.5"><Clock className="w-3.5 h-3.5" />{template.params.duration} min</span>
+        <span className="flex items-center gap-1.5"><Mic2 className="w-3.5 h-3.5" />{template.params.voice}</span>
+        <span className="flex items-center gap-1.5"><Music className="w-3.5 h-3.5" />{soundscapeLabel(template)}</span>
+      </div>
+      {template.params.style && <p className="text-xs text-slate-500 italic">"{template.params.style}"</p>}
+
+      <div className="flex items-center gap-1 mt-auto pt-2">
+        <Button className="!px-4 !py-2 text-sm" onClick={() => onGenerate(template)} disabled={!template.params.mood || !template.params.focus}>
+          <Music className="w-4 h-4" /> Generate
+        </Button>
+        <Button variant="ghost" className="!px-3 !py-1.5 text-sm" onClick={() => onUse(template)} title="Fill in the form to adjust first">
+          <SlidersHorizontal className="w-4 h-4" /> Customize
+        </Button>
+        <Button variant="ghost" className="!px-3 !py-1.5 text-sm ml-auto" onClick={() => handleShare(template)} title="Copy a link to this template">
+          {copiedId === template.id ? <Check className="w-4 h-4 text-emerald-400" /> : <Link2 className="w-4 h-4" />}
+        </Button>
+        {!template.curated && (
+          <Button variant="ghost" className="!px-3 !py-1.5 text-sm hover:!text-rose-400" onClick={() => handleDelete(template)}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="max-w-5xl mx-auto w-full animate-in fade-in duration-700">
+      <div className="mb-8">
+        <h2 className="text-4xl font-light tracking-tight text-white mb-2">Gallery</h2>
+        <p className="text-slate-400 font-light">Ready-made starting points. Generate one as it is, or adjust it first.</p>
+      </div>
+
+      {error && <p className="text-rose-400 mb-6">{error}</p>}
+
+      {templates.length > 0 && (
+        <>
+          <h3 className="text-sm font-medium text-slate-400 uppercase tracking-wider mb-4">Your templates</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 mb-10">{templates.map(renderCard)}</div>
+        </>
+      )}
+
+      <h3 className="text-sm font-medium text-slate-400 uppercase tracking-wider mb-4">Curated</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">{CURATED_TEMPLATES.map(renderCard)}</div>
+
+      {templates.length === 0 && (
+        <p className="flex items-center justify-center gap-2 text-sm text-slate-500 mt-10">
+          <LayoutGrid className="w-4 h-4" />
+          Save your own from the Create form with "Save as template".
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TemplateGallery;
\ No newline at end of file
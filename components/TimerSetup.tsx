@@ -0,0 +1,157 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Play, Bell, Clock, Hourglass, Mic2 } from 'lucide-react';
+import Button from './Button';
+import { DEFAULT_TIMER_SETTINGS, MAX_TIMER_MINUTES } from '../services/timer';
+import { getAudioContext, getProgramBus } from '../utils/audio';
+import { renderBell } from '../utils/bells';
+import { loadPreference, savePreference } from '../utils/storage';
+import { TimerSettings } from '../types';
+
+interface Props {
+  onStart: (settings: TimerSettings) => void;
+}
+
+const MINUTE_PRESETS = [5, 10, 20, 30, 45];
+const INTERVAL_OPTIONS = [0, 1, 2, 5, 10, 15];
+const WARMUP_OPTIONS = [0, 10, 30, 60];
+
+const chipClass = (selected: boolean) =>
+  `py-2.5 rounded-xl text-sm font-medium transition-all disabled:opacity-30 disabled:pointer-events-none ${
+    selected ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-400 hover:text-white hover:bg-slate-800'
+  }`;
+
+const TimerSetup: React.FC<Props> = ({ onStart }) => {
+  const [settings, setSettings] = useState<TimerSettings>(() => loadPreference('timer', DEFAULT_TIMER_SETTINGS));
+  const previewRef = useRef<AudioBufferSourceNode | null>(null);
+
+  const update = (patch: Partial<TimerSettings>) => {
+    const next = { ...settings, ...patch };
+    // Interval bells only make sense inside the sit
+    if (next.intervalMinutes >= next.minutes) next.intervalMinutes = 0;
+    setSettings(next);
+    savePreference('timer', next);
+  };
+
+  const stopPreview = () => {
+    try {
+      previewRef.current?.stop();
+    } catch (e) {
+      // already finished
+    }
+    previewRef.current = null;
+  };
+
+  useEffect(() => stopPreview, []);
+
+  const previewBell = () => {
+    stopPreview();
+    const ctx = getAudioContext();
+    if (ctx.state === 'suspended') ctx.resume();
+    const source = ctx.createBufferSource();
+    source.buffer = renderBell(ctx, 'start');
+    source.connect(getProgramBus());
+    source.start();
+    previewRef.current = source;
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto w-full animate-in slide-in-from-bottom-10 fade-in duration-700">
+      <div className="text-center mb-10">
+        <h2 className="text-4xl md:text-5xl font-light tracking-tight mb-4 bg-clip-text text-transparent bg-gradient-to-b from-white to-slate-400">
+          Sit in silence
+        </h2>
+        <p className="text-lg text-slate-400 font-light">No guidance, just bells to begin, to mark the time, and to close.</p>
+      </div>
+
+      <div className="bg-slate-800/50 backdrop-blur-xl border border-slate-700 rounded-3xl p-8 shadow-2xl space-y-6">
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm font-medium text-slate-300 ml-1">
+            <Clock className="w-4 h-4 text-emerald-400" />
+            Length of the sit (minutes)
+          </label>
+          <div className="grid grid-cols-6 gap-2 bg-slate-900/50 p-1.5 rounded-2xl border border-slate-700">
+            {MINUTE_PRESETS.map((m) => (
+              <button key={m} onClick={() => update({ minutes: m })} className={chipClass(settings.minutes === m)}>
+                {m}
+              </button>
+            ))}
+            <input
+              type="number"
+              min={1}
+              max={MAX_TIMER_MINUTES}
+              aria-label="Custom length in minutes"
+              value={settings.minutes}
+              onChange={(e) => {
+                const minutes = Math.round(Number(e.target.value));
+                if (!minutes) return;
+                update({ minutes: Math.min(MAX_TIMER_MINUTES, Math.max(1, minutes)) });
+              }}
+              className={`w-full min-w-0 rounded-xl text-sm font-medium text-center bg-transparent focus:outline-none focus:ring-1 focus:ring-indigo-500 ${
+                MINUTE_PRESETS.includes(settings.minutes) ? 'text-slate-400' : 'bg-indigo-600 text-white'
+              }`}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm font-medium text-slate-300 ml-1">
+            <Bell className="w-4 h-4 text-amber-400" />
+            Interval bell
+          </label>
+          <div className="grid grid-cols-6 gap-2 bg-slate-900/50 p-1.5 rounded-2xl border border-slate-700">
+            {INTERVAL_OPTIONS.map((m) => (
+              <button
+                key={m}
+                onClick={() => update({ intervalMinutes: m })}
+                disabled={m >= settings.minutes}
+                className={chipClass(settings.intervalMinutes === m)}
+              >
+                {m ? `${m} min` : 'Off'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm font-medium text-slate-300 ml-1">
+            <Hourglass className="w-4 h-4 text-purple-400" />
+            Warm-up before the first bell
+          </label>
+          <div className="grid grid-cols-4 gap-2 bg-slate-900/50 p-1.5 rounded-2xl border border-slate-700">
+            {WARMUP_OPTIONS.map((s) => (
+              <button key={s} onClick={() => update({ warmupSeconds: s })} className={chipClass(settings.warmupSeconds === s)}>
+                {s ? `${s} s` : 'None'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <label className="flex items-center gap-3 text-sm text-slate-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.spokenIntro}
+              onChange={(e) => update({ spokenIntro: e.target.checked })}
+              className="w-4 h-4 accent-indigo-500"
+            />
+            <Mic2 className="w-4 h-4 text-indigo-400" />
+            Short spoken intro and outro
+          </label>
+          <button onClick={previewBell} className="flex items-center gap-2 text-sm text-slate-400 hover:text-white transition-colors">
+            <Bell className="w-4 h-4" />
+            Hear the bell
+          </button>
+        </div>
+
+        <div className="pt-4">
+          <Button className="w-full text-lg py-4" onClick={() => { stopPreview(); onStart(settings); }}>
+            <Play className="w-5 h-5" fill="currentColor" />
+            Begin
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimerSetup;
\ No newline at end of file
@@ -0,0 +1,131 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Mic2, Globe, Gauge, Play, Square } from 'lucide-react';
+import { SpeakingPace, VoiceSettings } from '../types';
+import { VOICES, PACES, LANGUAGES } from '../utils/voices';
+import { getAudioContext } from '../utils/audio';
+import { previewVoice } from '../services/meditation';
+
+interface Props {
+  value: VoiceSettings;
+  onChange: (value: VoiceSettings) => void;
+}
+
+const selectClass = "w-full bg-slate-900/50 border border-slate-700 rounded-2xl px-4 py-3 text-white focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-all appearance-none";
+
+const VoicePicker: React.FC<Props> = ({ value, onChange }) => {
+  const [previewState, setPreviewState] = useState<'idle' | 'loading' | 'playing'>('idle');
+  const [previewError, setPreviewError] = useState('');
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  // Bumped on every stop so a preview that finishes loading late is discarded
+  const requestRef = useRef(0);
+
+  const stopPreview = () => {
+    requestRef.current++;
+    if (sourceRef.current) {
+      sourceRef.current.onended = null;
+      try {
+        sourceRef.current.stop();
+      } catch (e) {
+        // already finished
+      }
+      sourceRef.current = null;
+    }
+    setPreviewState('idle');
+  };
+
+  useEffect(() => stopPreview, []);
+
+  const update = (patch: Partial<VoiceSettings>) => {
+    stopPreview();
+    onChange({ ...value, ...patch });
+  };
+
+  const handlePreview = async () => {
+    if (previewState !== 'idle') {
+      stopPreview();
+      return;
+    }
+    setPreviewError('');
+    setPreviewState('loading');
+    const request = ++requestRef.current;
+    try {
+      const buffer = await previewVoice(value);
+      if (request !== requestRef.current) return;
+      const ctx = getAudioContext();
+      if (ctx.state === 'suspended') ctx.resume();
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+      source.onended = () => {
+        sourceRef.current = null;
+        setPreviewState('idle');
+      };
+      source.start();
+      sourceRef.current = source;
+      setPreviewState('playing');
+    } catch (error) {
+      console.error("Voice preview failed:", error);
+      if (request !== requestRef.current) return;
+      setPreviewError('Preview unavailable right now.');
+      setPreviewState('idle');
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-300 ml-1">
+          <Mic2 className="w-4 h-4 text-sky-400" />
+          Voice
+        </label>
+        <div className="flex gap-2">
+          <select className={selectClass} value={value.voice} onChange={(e) => update({ voice: e.target.value })}>
+            {VOICES.map((v) => (
+              <option key={v.name} value={v.name}>{v.name} · {v.style}</option>
+            ))}
+          </select>
+          <button
+            onClick={handlePreview}
+            title={previewState === 'idle' ? 'Preview this voice' : 'Stop preview'}
+            className="shrink-0 w-12 flex items-center justify-center rounded-2xl border border-slate-700 bg-slate-900/50 text-slate-300 hover:text-white hover:border-indigo-500 transition-all"
+          >
+            {previewState === 'loading' ? (
+              <span className="w-4 h-4 border-2 border-indigo-400 border-t-transparent rounded-full animate-spin" />
+            ) : previewState === 'playing' ? (
+              <Square className="w-4 h-4" fill="currentColor" />
+            ) : (
+              <Play className="w-4 h-4" fill="currentColor" />
+            )}
+          </button>
+        </div>
+        {previewError && <p className="text-xs text-rose-400 ml-1">{previewError}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-300 ml-1">
+          <Gauge className="w-4 h-4 text-amber-400" />
+          Pace
+        </label>
+        <select className={selectClass} value={value.pace} onChange={(e) => update({ pace: e.target.value as SpeakingPace })}>
+          {PACES.map((p) => (
+            <option key={p.id} value={p.id}>{p.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-300 ml-1">
+          <Globe className="w-4 h-4 text-teal-400" />
+          Language
+        </label>
+        <select className={selectClass} value={value.language} onChange={(e) => update({ language: e.target.value })}>
+          {LANGUAGES.map((l) => (
+            <option key={l.code} value={l.code}>{l.nativeName}{l.nativeName !== l.name ? ` (${l.name})` : ''}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default VoicePicker;
\ No newline at end of file
@@ -12,4 +12,12 @@ root.render(
   <React.StrictMode>
     <App />
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+// Offline support and installability; skipped in development so the dev
+// server's modules are never served from a cache
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => console.error('Service worker registration failed:', error));
+  });
+}
\ No newline at end of file
@@ -0,0 +1,98 @@
+// Service worker: keeps the app shell available offline. Saved sessions live
+// in IndexedDB, so once the shell loads they play without a connection.
+// Generation requests always go to the network; the app caches their
+// results itself.
+
+// Bump to drop everything cached by an earlier version
+const CACHE = 'zengen-shell-v1';
+const STATIC = ['/manifest.webmanifest', '/icon.svg', '/icon-maskable.svg'];
+
+// Other origins don't all let their responses be read, so their parts of the
+// shell (Tailwind, the font stylesheet) are stored opaque if need be. A
+// stylesheet that can be read has its fonts cached as well; those must not be
+// opaque, since the page loads fonts in CORS mode.
+const precacheRemote = async (cache, url) => {
+  const readable = await fetch(url, { mode: 'cors' }).catch(() => null);
+  if (!readable?.ok) {
+    const request = new Request(url, { mode: 'no-cors' });
+    await cache.put(request, await fetch(request));
+    return;
+  }
+  await cache.put(url, readable.clone());
+  if (!readable.headers.get('content-type')?.includes('text/css')) return;
+  const css = await readable.text();
+  const fonts = [...css.matchAll(/url\((['"]?)(https:[^'")]+)\1\)/g)].map((match) => match[2]);
+  await Promise.all([...new Set(fonts)].map((font) => cache.add(font)));
+};
+
+// Caches the page and the assets it references (the built bundle has
+// hashed names, so they're read from the page rather than listed here)
+const precacheShell = async () => {
+  const cache = await caches.open(CACHE);
+  const response = await fetch('/', { cache: 'no-cache' });
+  if (!response.ok) throw new Error(`App shell request failed: ${response.status}`);
+  const html = await response.clone().text();
+  await cache.put('/', response);
+  const assets = [...html.matchAll(/(?:src|href)="((?:\/(?!\/)|https:\/\/)[^"]*)"/g)]
+    .map((match) => match[1].replace(/&amp;/g, '&'));
+  const local = assets.filter((url) => url.startsWith('/'));
+  const remote = assets.filter((url) => !url.startsWith('/'));
+  await cache.addAll([...new Set([...STATIC, ...local])]);
+  await Promise.all([...new Set(remote)].map((url) => precacheRemote(cache, url)));
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+// Model APIs; fonts.googleapis.com is part of the shell
+const isApiRequest = (url) => url.hostname.endsWith('googleapis.com') && url.hostname !== 'fonts.googleapis.com';
+
+// Pages: the network first so updates arrive, the cached shell when offline
+const handleNavigation = async (request) => {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put('/', response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match('/');
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Everything else (bundle, styles, fonts, CDN scripts): the cached copy
+// right away, refreshed in the background for next time
+const handleAsset = async (request) => {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  const refreshed = fetch(request)
+    .then((response) => {
+      // Cross-origin scripts and fonts come back opaque; they're still usable
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    });
+  if (cached) {
+    refreshed.catch(() => {});
+    return cached;
+  }
+  return refreshed;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (!url.protocol.startsWith('http') || isApiRequest(url)) return;
+
+  event.respondWith(request.mode === 'navigate' ? handleNavigation(request) : handleAsset(request));
+});
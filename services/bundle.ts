@@ -0,0 +1,266 @@
+import { MeditationSession, GenerationParams, ScriptCue } from "../types";
+import { encodeWAV, decodeWAV } from "../utils/wav";
+import { createZip, readZip, ZipEntry } from "../utils/zip";
+import { decodeAudioData, encode, getAudioContext } from "../utils/audio";
+import { normalizeParams } from "../utils/params";
+
+export const BUNDLE_FORMAT = "zengen-session";
+export const BUNDLE_VERSION = 1;
+
+// Contents of session.json inside an exported zip
+export interface SessionManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  title: string;
+  script: string;
+  imagePrompt: string;
+  params?: GenerationParams;
+  cues?: ScriptCue[];
+  audio?: { file: string; sampleRate: number; numChannels: number; duration: number };
+  image?: { file: string; mimeType: string };
+}
+
+export type ScriptFormat = "markdown" | "text";
+
+const slugify = (title: string) =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "meditation";
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/svg+xml": "svg",
+};
+
+/**
+ * Triggers a browser download for in-memory data.
+ */
+export const downloadBlob = (data: Blob, filename: string) => {
+  const url = URL.createObjectURL(data);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const formatScript = (session: MeditationSession, format: ScriptFormat): string => {
+  if (format === "text") {
+    return `${session.title}\n\n${session.script}\n`;
+  }
+  const details = [
+    session.params?.mood && `- **Feeling:** ${session.params.mood}`,
+    session.params?.focus && `- **Focus:** ${session.params.focus}`,
+    session.params?.duration && `- **Duration:** ${session.params.duration} min`,
+  ].filter(Boolean);
+  return [
+    `# ${session.title}`,
+    details.join("\n"),
+    session.script.split("\n").filter((line) => line.trim()).join("\n\n"),
+  ].filter(Boolean).join("\n\n") + "\n";
+};
+
+/**
+ * Resolves the session image (a data URL, or the remote fallback) to raw bytes.
+ * Returns undefined when the image can't be fetched, e.g. offline or CORS.
+ */
+export const fetchImageBytes = async (imageUrl?: string): Promise<{ data: Uint8Array; mimeType: string } | undefined> => {
+  if (!imageUrl) return undefined;
+  try {
+    const response = await fetch(imageUrl);
+    if (!response.ok) return undefined;
+    const blob = await response.blob();
+    return { data: new Uint8Array(await blob.arrayBuffer()), mimeType: blob.type || "image/jpeg" };
+  } catch (error) {
+    console.error("Image export failed:", error);
+    return undefined;
+  }
+};
+
+export const exportAudio = (session: MeditationSession) => {
+  if (!session.audioBuffer) throw new Error("This session has no audio to export");
+  downloadBlob(new Blob([encodeWAV(session.audioBuffer)], { type: "audio/wav" }), `${slugify(session.title)}.wav`);
+};
+
+export const exportScript = (session: MeditationSession, format: ScriptFormat) => {
+  const ext = format === "markdown" ? "md" : "txt";
+  const type = format === "markdown" ? "text/markdown" : "text/plain";
+  downloadBlob(new Blob([formatScript(session, format)], { type }), `${slugify(session.title)}.${ext}`);
+};
+
+export const exportImage = async (session: MeditationSession) => {
+  const image = await fetchImageBytes(session.imageUrl);
+  if (!image) throw new Error("The background image could not be retrieved");
+  const ext = EXTENSIONS[image.mimeType] || "jpg";
+  downloadBlob(new Blob([image.data], { type: image.mimeType }), `${slugify(session.title)}.${ext}`);
+};
+
+/**
+ * Builds a single zip with session.json, audio.wav, script.md and the image.
+ */
+export const buildSessionBundle = async (session: MeditationSession): Promise<Uint8Array> => {
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [];
+  const manifest: SessionManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    title: session.title,
+    script: session.script,
+    imagePrompt: session.imagePrompt,
+    params: session.params,
+    cues: session.cues,
+  };
+
+  if (session.audioBuffer) {
+    entries.push({ name: "audio.wav", data: encodeWAV(session.audioBuffer) });
+    manifest.audio = {
+      file: "audio.wav",
+      sampleRate: session.audioBuffer.sampleRate,
+      numChannels: session.audioBuffer.numberOfChannels,
+      duration: session.audioBuffer.duration,
+    };
+  }
+
+  const image = await fetchImageBytes(session.imageUrl);
+  if (image) {
+    const file = `background.${EXTENSIONS[image.mimeType] || "jpg"}`;
+    entries.push({ name: file, data: image.data });
+    manifest.image = { file, mimeType: image.mimeType };
+  }
+
+  entries.push({ name: "script.md", data: encoder.encode(formatScript(session, "markdown")) });
+  entries.unshift({ name: "session.json", data: encoder.encode(JSON.stringify(manifest, null, 2)) });
+
+  return createZip(entries);
+};
+
+export const exportBundle = async (session: MeditationSession) => {
+  const zip = await buildSessionBundle(session);
+  downloadBlob(new Blob([zip], { type: "application/zip" }), `${slugify(session.title)}.zip`);
+};
+
+/**
+ * Raised for any bundle that can't be imported; the message is user-facing.
+ */
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BundleError";
+  }
+}
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const validateManifest = (value: unknown): SessionManifest => {
+  if (!value || typeof value !== "object") throw new BundleError("session.json is not a JSON object.");
+  const m = value as Record<string, unknown>;
+
+  if (m.format !== BUNDLE_FORMAT) throw new BundleError("session.json is not a ZenGen session export.");
+  if (typeof m.version !== "number" || m.version > BUNDLE_VERSION) {
+    throw new BundleError(`Unsupported bundle version "${m.version}". Please update ZenGen.`);
+  }
+  const missing = ["title", "script", "imagePrompt"].filter((key) => !isString(m[key]) || !(m[key] as string).trim());
+  if (missing.length) throw new BundleError(`session.json is missing: ${missing.join(", ")}.`);
+
+  if (m.params !== undefined) {
+    const p = m.params as Record<string, unknown>;
+    if (!p || typeof p !== "object" || !isString(p.mood) || !isString(p.focus)
+      || !(typeof p.duration === "number" || isString(p.duration))) {
+      throw new BundleError("session.json has malformed generation params.");
+    }
+    m.params = normalizeParams(p as Partial<GenerationParams>);
+  }
+  if (m.audio !== undefined) {
+    const a = m.audio as Record<string, unknown>;
+    if (!a || !isString(a.file)) throw new BundleError("session.json has a malformed audio entry.");
+  }
+  if (m.image !== undefined) {
+    const i = m.image as Record<string, unknown>;
+    if (!i || !isString(i.file) || !isString(i.mimeType)) throw new BundleError("session.json has a malformed image entry.");
+  }
+  // Cue timings are an optimisation; drop them rather than reject the bundle
+  const validCues = Array.isArray(m.cues) && m.cues.every((c) =>
+    c && isString(c.text) && typeof c.start === "number" && typeof c.end === "number" && typeof c.paragraph === "number");
+  return { ...m, cues: validCues ? m.cues : undefined } as unknown as SessionManifest;
+};
+
+const baseName = (path: string) => path.split("/").pop() || path;
+
+/**
+ * Collects the files of a bundle into a name -> bytes map. Accepts a single
+ * exported zip, or the loose files (session.json, audio.wav, image) dropped together.
+ */
+const collectFiles = async (files: File[]): Promise<Map<string, Uint8Array>> => {
+  const result = new Map<string, Uint8Array>();
+  for (const file of files) {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    if (file.name.toLowerCase().endsWith(".zip") || file.type === "application/zip") {
+      let entries: ZipEntry[];
+      try {
+        entries = await readZip(bytes);
+      } catch (error) {
+        throw new BundleError(`${file.name} could not be read: ${(error as Error).message}.`);
+      }
+      entries.forEach((entry) => result.set(baseName(entry.name), entry.data));
+    } else {
+      result.set(file.name, bytes);
+    }
+  }
+  return result;
+};
+
+/**
+ * Validates and loads an exported bundle into a playable session.
+ */
+export const importBundle = async (files: File[]): Promise<MeditationSession> => {
+  if (!files.length) throw new BundleError("No files to import.");
+  const contents = await collectFiles(files);
+
+  const manifestName = contents.has("session.json")
+    ? "session.json"
+    : [...contents.keys()].find((name) => name.toLowerCase().endsWith(".json"));
+  if (!manifestName) throw new BundleError("No session.json found. Drop an exported .zip, or session.json with its audio.");
+
+  let manifest: SessionManifest;
+  try {
+    manifest = validateManifest(JSON.parse(new TextDecoder().decode(contents.get(manifestName))));
+  } catch (error) {
+    if (error instanceof BundleError) throw error;
+    throw new BundleError(`${manifestName} is not valid JSON.`);
+  }
+
+  let audioBuffer: AudioBuffer | undefined;
+  if (manifest.audio) {
+    const wav = contents.get(manifest.audio.file)
+      ?? [...contents.entries()].find(([name]) => name.toLowerCase().endsWith(".wav"))?.[1];
+    if (!wav) throw new BundleError(`The bundle is incomplete: ${manifest.audio.file} is missing.`);
+    try {
+      const { pcm, sampleRate, numChannels } = decodeWAV(wav);
+      audioBuffer = await decodeAudioData(pcm, getAudioContext(), sampleRate, numChannels);
+    } catch (error) {
+      throw new BundleError(`${manifest.audio.file} could not be decoded: ${(error as Error).message}.`);
+    }
+  }
+
+  // The image is decorative, so a missing one falls back to the default visuals
+  let imageUrl: string | undefined;
+  const imageBytes = manifest.image && contents.get(manifest.image.file);
+  if (manifest.image && imageBytes) {
+    imageUrl = `data:${manifest.image.mimeType};base64,${encode(imageBytes)}`;
+  }
+
+  return {
+    title: manifest.title,
+    script: manifest.script,
+    imagePrompt: manifest.imagePrompt,
+    params: manifest.params,
+    cues: manifest.cues,
+    imageUrl,
+    audioBuffer,
+  };
+};
\ No newline at end of file
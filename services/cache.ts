@@ -0,0 +1,107 @@
+import { idbDelete, idbGet, idbGetAll, idbPut, STORES } from "../utils/db";
+import { hashContent } from "../utils/hash";
+
+// Local cache of generated content (scripts, images, voiced speech), so the
+// same request doesn't spend quota twice. Entries are addressed by a hash of
+// everything that shaped them. Small metadata lives apart from the payloads
+// so the LRU index loads without reading any audio. The cache is best
+// effort: a storage failure is logged and treated as a miss.
+
+export type CacheKind = "script" | "image" | "speech";
+
+// Most each kind may hold, in bytes; the least recently used go first
+const CACHE_LIMITS: Record<CacheKind, number> = {
+  script: 2 * 1024 * 1024,
+  image: 40 * 1024 * 1024,
+  speech: 200 * 1024 * 1024, // about 70 minutes of 24 kHz speech
+};
+
+interface CacheEntry {
+  id: string;
+  kind: CacheKind;
+  size: number; // bytes
+  lastUsed: number;
+}
+
+interface CacheData {
+  id: string;
+  value: unknown;
+}
+
+let indexPromise: Promise<Map<string, CacheEntry>> | null = null;
+// The index once loaded, for synchronous lookups
+let loadedIndex: Map<string, CacheEntry> | null = null;
+
+export const loadCacheIndex = (): Promise<Map<string, CacheEntry>> => {
+  if (!indexPromise) {
+    indexPromise = idbGetAll<CacheEntry>(STORES.cacheEntries).then((entries) => {
+      loadedIndex = new Map(entries.map((entry) => [entry.id, entry]));
+      return loadedIndex;
+    });
+    // Allow a later call to retry if storage wasn't available
+    indexPromise.catch(() => { indexPromise = null; });
+  }
+  return indexPromise;
+};
+
+/**
+ * Case and spacing don't make a prompt different.
+ */
+export const normalizePrompt = (text = ""): string => text.trim().toLowerCase().replace(/\s+/g, " ");
+
+export const cacheKey = (kind: CacheKind, parts: (string | number | undefined)[]): string =>
+  `${kind}:${hashContent(parts.map((part) => part ?? "").join("\u0000"))}`;
+
+/**
+ * Whether an entry is stored, as far as is known without waiting on storage.
+ */
+export const isCached = (key: string): boolean => loadedIndex?.has(key) ?? false;
+
+export const cacheGet = async <T>(key: string): Promise<T | undefined> => {
+  try {
+    const index = await loadCacheIndex();
+    const entry = index.get(key);
+    if (!entry) return undefined;
+    const data = await idbGet<CacheData>(STORES.cacheData, key);
+    if (!data) {
+      index.delete(key);
+      await idbDelete(STORES.cacheEntries, key);
+      return undefined;
+    }
+    entry.lastUsed = Date.now();
+    await idbPut(STORES.cacheEntries, entry);
+    return data.value as T;
+  } catch (error) {
+    console.warn("Reading the cache failed:", error);
+    return undefined;
+  }
+};
+
+const evict = async (index: Map<string, CacheEntry>, kind: CacheKind) => {
+  const entries = [...index.values()].filter((entry) => entry.kind === kind).sort((a, b) => a.lastUsed - b.lastUsed);
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  for (const entry of entries) {
+    if (total <= CACHE_LIMITS[kind]) break;
+    index.delete(entry.id);
+    total -= entry.size;
+    await Promise.all([idbDelete(STORES.cacheEntries, entry.id), idbDelete(STORES.cacheData, entry.id)]);
+  }
+};
+
+/**
+ * Stores a value (anything IndexedDB can clone) and evicts the least
+ * recently used entries of its kind beyond the limit.
+ */
+export const cachePut = async (key: string, kind: CacheKind, value: unknown, size: number): Promise<void> => {
+  if (size > CACHE_LIMITS[kind]) return;
+  try {
+    const index = await loadCacheIndex();
+    const entry: CacheEntry = { id: key, kind, size, lastUsed: Date.now() };
+    await idbPut<CacheData>(STORES.cacheData, { id: key, value });
+    await idbPut(STORES.cacheEntries, entry);
+    index.set(key, entry);
+    await evict(index, kind);
+  } catch (error) {
+    console.warn("Writing the cache failed:", error);
+  }
+};
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { idbDelete, idbGetAll, idbPut, STORES } from "../utils/db";
+import { ChatMessage, ChatThread, SavedChatThread } from "../types";
+
+// Longest thread title, taken from the first thing the user said
+const TITLE_LENGTH = 48;
+
+export const createThread = (): ChatThread => {
+  const now = Date.now();
+  return { id: crypto.randomUUID(), title: "New conversation", messages: [], summarizedCount: 0, createdAt: now, updatedAt: now };
+};
+
+const titleFor = (messages: ChatMessage[]): string => {
+  const first = messages.find((m) => m.role === "user")?.text.trim().replace(/\s+/g, " ");
+  if (!first) return "New conversation";
+  return first.length > TITLE_LENGTH ? `${first.slice(0, TITLE_LENGTH - 3)}...` : first;
+};
+
+/**
+ * Persists a chat thread, titling it after its first user message.
+ * Returns the thread as saved.
+ */
+export const saveThread = async (thread: ChatThread): Promise<ChatThread> => {
+  const saved: ChatThread = { ...thread, title: titleFor(thread.messages), updatedAt: Date.now() };
+  const record: SavedChatThread = {
+    ...saved,
+    messages: saved.messages.map((m) => ({ ...m, timestamp: m.timestamp.getTime() })),
+  };
+  await idbPut(STORES.chats, record);
+  return saved;
+};
+
+/**
+ * Lists saved threads, most recently active first, with timestamps restored as Dates.
+ */
+export const listThreads = async (): Promise<ChatThread[]> => {
+  const records = await idbGetAll<SavedChatThread>(STORES.chats);
+  return records
+    .map((record) => ({
+      ...record,
+      summarizedCount: record.summarizedCount ?? 0,
+      messages: record.messages.map((m) => ({ ...m, timestamp: new Date(m.timestamp) })),
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteThread = (id: string): Promise<void> => idbDelete(STORES.chats, id);
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { idbDelete, idbGet, idbGetAll, idbPut, STORES } from "../utils/db";
+import { Course, CourseContext, CourseDay, CoursePlan, GenerationParams } from "../types";
+
+export const COURSE_LENGTHS = [7, 14, 21];
+export const MAX_COURSE_DAYS = 30;
+
+export const createCourse = (plan: CoursePlan, params: GenerationParams): Course => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    title: plan.title,
+    description: plan.description,
+    params,
+    days: plan.days.map(({ title, theme }) => ({ title, theme })),
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const saveCourse = async (course: Course): Promise<Course> => {
+  const saved = { ...course, updatedAt: Date.now() };
+  await idbPut(STORES.courses, saved);
+  return saved;
+};
+
+/**
+ * Lists courses, most recently practised first.
+ */
+export const listCourses = async (): Promise<Course[]> => {
+  const courses = await idbGetAll<Course>(STORES.courses);
+  return courses.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteCourse = (id: string): Promise<void> => idbDelete(STORES.courses, id);
+
+/**
+ * A day is open once every day before it is done, so each session can
+ * build on the ones already practised.
+ */
+export const isDayUnlocked = (course: Course, day: number): boolean =>
+  course.days.slice(0, day).every((d) => d.completedAt);
+
+export const completedDays = (course: Course): number => course.days.filter((d) => d.completedAt).length;
+
+// What goes into a day's generation params
+export const courseContext = (course: Course, day: number): CourseContext => ({
+  courseId: course.id,
+  title: course.title,
+  description: course.description,
+  day,
+  days: course.days.map(({ title, theme }) => ({ title, theme })),
+});
+
+const updateDay = async (courseId: string, day: number, patch: Partial<CourseDay>): Promise<Course | undefined> => {
+  const course = await idbGet<Course>(STORES.courses, courseId);
+  // The course may have been deleted while its session played
+  if (!course || !course.days[day]) return undefined;
+  const days = course.days.map((d, i) => (i === day ? { ...d, ...patch } : d));
+  return saveCourse({ ...course, days });
+};
+
+/**
+ * Links a day to its generated session, so reopening the day replays it.
+ */
+export const recordCourseSession = ({ courseId, day }: CourseContext, sessionId: string) =>
+  updateDay(courseId, day, { sessionId });
+
+export const setDayCompleted = (courseId: string, day: number, completed: boolean) =>
+  updateDay(courseId, day, { completedAt: completed ? Date.now() : undefined });
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { ApiError } from "@google/genai";
+import { StepState } from "../types";
+
+export type GenerationErrorKind =
+  | "quota"
+  | "safety"
+  | "network"
+  | "timeout"
+  | "bad-response"
+  | "cancelled"
+  | "unknown";
+
+const MESSAGES: Record<GenerationErrorKind, string> = {
+  quota: "The AI service is busy or your quota is used up. Please wait a moment and try again.",
+  safety: "The request was blocked by content safety filters. Try describing your mood or goal differently.",
+  network: "Couldn't reach the AI service. Check your connection and try again.",
+  timeout: "The AI service took too long to respond.",
+  "bad-response": "The AI service sent back something unexpected.",
+  cancelled: "Generation was cancelled.",
+  unknown: "Something went wrong while generating.",
+};
+
+// Worth another attempt after a short wait
+const RETRYABLE: GenerationErrorKind[] = ["quota", "network", "timeout", "bad-response"];
+
+/**
+ * A failed generation call, classified so the UI can say what went wrong
+ * and whether trying again could help. The message is user-facing.
+ */
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+
+  constructor(kind: GenerationErrorKind, message: string = MESSAGES[kind], cause?: unknown) {
+    super(message, { cause });
+    this.name = "GenerationError";
+    this.kind = kind;
+  }
+
+  get retryable() {
+    return RETRYABLE.includes(this.kind);
+  }
+}
+
+const classify = (error: unknown): GenerationErrorKind => {
+  if (error instanceof DOMException) {
+    if (error.name === "TimeoutError") return "timeout";
+    if (error.name === "AbortError") return "cancelled";
+  }
+  if (error instanceof SyntaxError) return "bad-response";
+  if (error instanceof ApiError) {
+    if (error.status === 429) return "quota";
+    if (error.status >= 500 || error.status === 408) return "network";
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (/RESOURCE_EXHAUSTED|quota|rate limit|\b429\b/i.test(message)) return "quota";
+  if (/safety|blocked|prohibited/i.test(message)) return "safety";
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) return "network";
+  if (/\b(500|502|503|504)\b|UNAVAILABLE|overloaded/i.test(message)) return "network";
+  return "unknown";
+};
+
+export const failedStep = (error: GenerationError): StepState => ({
+  status: "failed",
+  error: error.message,
+  retryable: error.retryable,
+});
+
+/**
+ * Wraps anything thrown by a provider (SDK errors, fetch failures, aborts,
+ * JSON parse errors) in a GenerationError.
+ */
+export const toGenerationError = (error: unknown): GenerationError =>
+  error instanceof GenerationError ? error : new GenerationError(classify(error), undefined, error);
\ No newline at end of file
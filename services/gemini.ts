@@ -1,136 +1,354 @@
-import { GoogleGenAI, Type, Modality, Chat } from "@google/genai";
+import { GoogleGenAI, GenerateContentResponse, Type, Modality } from "@google/genai";
 import { decode, decodeAudioData, getAudioContext } from "../utils/audio";
-import { MeditationSession } from "../types";
+import { getLanguage, getPace } from "../utils/voices";
+import { CourseContext, CourseDayPlan, GenerationParams } from "../types";
+import { ScriptBudget } from "../utils/pacing";
+import { MeditationProvider } from "./provider";
+import { GenerationError } from "./errors";
 
-// Initialize the client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Created on first use so the offline provider never needs an API key
+let ai: GoogleGenAI | null = null;
+
+const getClient = () => {
+  if (!ai) {
+    ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return ai;
+};
+
+const SCRIPT_MODEL = "gemini-3-pro-preview";
+const IMAGE_MODEL = "imagen-4.0-generate-001";
+const SPEECH_MODEL = "gemini-2.5-flash-preview-tts";
+
+// Where a course day stands in its course, so it can build on the days before
+const describeCourse = ({ title, description, day, days }: CourseContext) => `
+      This session is day ${day + 1} of ${days.length} in the course "${title}": ${description}
+      The course plan:
+      ${days.map((d, i) => `${i + 1}. ${d.title}: ${d.theme}`).join("\n      ")}
+
+      Today is "${days[day].title}": ${days[day].theme}. Use that as the session title.
+      ${day > 0 ? "Briefly recall what the earlier days practised and build on it rather than repeating it." : "Open by welcoming the listener to the course."}
+      ${day < days.length - 1 ? "Close with a line that looks ahead to tomorrow." : "Close the course warmly, with a way to keep practising."}`;
+
+// Brief shared by the JSON and streaming script requests
+const describeScript = (params: GenerationParams, budget: ScriptBudget) => {
+  const { mood, focus, duration: minutes } = params;
+  const language = getLanguage(params.language);
+  return `${params.course ? describeCourse(params.course) : ""}
+      Create a guided meditation script for a user who is feeling "${mood}" and wants to focus on "${focus}".
+      The session must last ${minutes} minutes. Write about ${budget.words} spoken words, and use pause
+      markers adding up to about ${budget.pauseSeconds} seconds of silence. Stay close to both numbers.
+
+      Write the title and script in ${language.name}, as a native ${language.name} meditation teacher
+      would. Keep the pause markers and the image prompt in English.
+      ${params.style ? `Follow this style direction in the script's tone and in the image prompt: "${params.style}".` : ""}
+
+      Insert silence markers of the form [pause 20s] on their own line wherever the listener should
+      rest in silence (after breathing instructions, body scan steps, visualisations). Pauses may range
+      from 3s to 120s. The markers are not read aloud; they become real silence in the audio.`;
+};
+
+// Finish reasons that mean the output was withheld by content filters
+const BLOCKED_REASONS = ["SAFETY", "PROHIBITED_CONTENT", "BLOCKLIST", "SPII", "IMAGE_SAFETY"];
+
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && BLOCKED_REASONS.includes(finishReason))) {
+    throw new GenerationError("safety", undefined, blockReason ?? finishReason);
+  }
+};
 
 /**
- * Generates the meditation script and image prompt using Gemini 3 Pro.
+ * Gemini implementation: Gemini 3 Pro for scripts and chat, Imagen 4 for
+ * visuals and Gemini TTS for the voice.
  */
-export const generateMeditationContent = async (mood: string, focus: string, duration: string): Promise<MeditationSession> => {
-  const model = "gemini-3-pro-preview";
-  
-  const prompt = `
-    Create a guided meditation script for a user who is feeling "${mood}" and wants to focus on "${focus}".
-    The duration should be roughly ${duration} (Short = 100 words, Medium = 200 words, Long = 300 words).
-    
-    Return a JSON object with:
-    1. "title": A calming title for the session.
-    2. "script": The spoken text for the meditation guide. It should be soothing, spaced out, and direct.
-    3. "imagePrompt": A detailed, artistic prompt to generate a serene background image using an AI image generator. Describe a scene that matches the mood (e.g., "A misty forest at dawn with soft golden light").
-  `;
-
-  const response = await ai.models.generateContent({
-    model,
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          title: { type: Type.STRING },
-          script: { type: Type.STRING },
-          imagePrompt: { type: Type.STRING },
+export const geminiProvider: MeditationProvider = {
+  name: "gemini",
+  models: { script: SCRIPT_MODEL, image: IMAGE_MODEL, speech: SPEECH_MODEL },
+
+  generateScript: async (params, budget, signal) => {
+    const prompt = `
+      ${describeScript(params, budget)}
+
+      Return a JSON object with:
+      1. "title": A calming title for the session.
+      2. "script": The spoken text for the meditation guide. It should be soothing, spaced out, and direct.
+      3. "imagePrompt": A detailed, artistic prompt to generate a serene background image using an AI image generator. Describe a scene that matches the mood (e.g., "A misty forest at dawn with soft golden light").
+    `;
+
+    const response = await getClient().models.generateContent({
+      model: SCRIPT_MODEL,
+      contents: prompt,
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING },
+            script: { type: Type.STRING, description: "Spoken text, one paragraph per line, with [pause Ns] silence markers." },
+            imagePrompt: { type: Type.STRING },
+          },
+          required: ["title", "script", "imagePrompt"],
         },
-        required: ["title", "script", "imagePrompt"],
       },
-    },
-  });
-
-  const json = JSON.parse(response.text || "{}");
-  
-  return {
-    title: json.title || "Meditation Session",
-    script: json.script || "",
-    imagePrompt: json.imagePrompt || "A peaceful abstract landscape with soft colors",
-  };
-};
+    });
 
-/**
- * Generates the background image using Imagen 4.
- */
-export const generateMeditationImage = async (prompt: string): Promise<string> => {
-  try {
-    const response = await ai.models.generateImages({
-      model: 'imagen-4.0-generate-001',
+    assertNotBlocked(response);
+    let json;
+    try {
+      json = JSON.parse(response.text || "");
+    } catch (error) {
+      throw new GenerationError("bad-response", "The script came back malformed.", error);
+    }
+    if (!json.script) throw new GenerationError("bad-response", "The script came back empty.");
+    
+    return {
+      title: json.title || "Meditation Session",
+      script: json.script,
+      imagePrompt: json.imagePrompt || "A peaceful abstract landscape with soft colors",
+    };
+  },
+
+  // Plain text instead of JSON, so every chunk can be shown and voiced as it arrives
+  async *streamScript(params, budget, signal) {
+    const prompt = `
+      ${describeScript(params, budget)}
+
+      Reply in plain text with exactly this layout and nothing else:
+      Title: <a calming title for the session>
+      Image: <a detailed, artistic prompt for an AI image generator describing a serene scene that matches the mood>
+
+      <the spoken script, one paragraph per line, with its pause markers>
+    `;
+
+    const stream = await getClient().models.generateContentStream({
+      model: SCRIPT_MODEL,
+      contents: prompt,
+      config: { abortSignal: signal },
+    });
+    for await (const chunk of stream) {
+      assertNotBlocked(chunk);
+      if (chunk.text) yield chunk.text;
+    }
+  },
+
+  generateImage: async (prompt, signal) => {
+    const response = await getClient().models.generateImages({
+      model: IMAGE_MODEL,
       prompt: `${prompt}, photorealistic, 8k, serene, cinematic lighting, peaceful atmosphere`,
       config: {
+        abortSignal: signal,
         numberOfImages: 1,
         outputMimeType: 'image/jpeg',
         aspectRatio: '3:4', // Portrait-ish for mobile/web
       },
     });
 
-    const base64ImageBytes = response.generatedImages?.[0]?.image?.imageBytes;
-    if (base64ImageBytes) {
-      return `data:image/jpeg;base64,${base64ImageBytes}`;
+    const generated = response.generatedImages?.[0];
+    const base64ImageBytes = generated?.image?.imageBytes;
+    if (!base64ImageBytes) {
+      // Imagen drops filtered images and says why
+      if (generated?.raiFilteredReason) throw new GenerationError("safety", undefined, generated.raiFilteredReason);
+      throw new GenerationError("bad-response", "No image data returned");
     }
-    return "https://picsum.photos/800/1200"; // Fallback
-  } catch (error) {
-    console.error("Image generation failed:", error);
-    return "https://picsum.photos/800/1200"; // Fallback
-  }
-};
+    return `data:image/jpeg;base64,${base64ImageBytes}`;
+  },
 
-/**
- * Generates speech from text using Gemini TTS.
- */
-export const generateMeditationAudio = async (text: string): Promise<AudioBuffer | undefined> => {
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text }] }],
+  // Pace and language are given as a natural-language style direction,
+  // which the TTS model follows without reading it aloud
+  synthesizeSpeech: async (text, settings, signal) => {
+    const direction = `${getPace(settings.pace).instruction}, in ${getLanguage(settings.language).name}:`;
+    const response = await getClient().models.generateContent({
+      model: SPEECH_MODEL,
+      contents: [{ parts: [{ text: `${direction}\n${text}` }] }],
       config: {
+        abortSignal: signal,
         responseModalities: [Modality.AUDIO],
         speechConfig: {
           voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' }, // Kore is usually a good calm voice
+            prebuiltVoiceConfig: { voiceName: settings.voice },
           },
         },
       },
     });
 
+    assertNotBlocked(response);
     const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) throw new Error("No audio data returned");
-
-    const ctx = getAudioContext();
-    const audioBuffer = await decodeAudioData(
-      decode(base64Audio),
-      ctx,
-      24000,
-      1
-    );
-    
-    return audioBuffer;
-  } catch (error) {
-    console.error("Audio generation failed:", error);
-    return undefined;
-  }
-};
+    if (!base64Audio) throw new GenerationError("bad-response", "No audio data returned");
 
-// Chat instance singleton to maintain history
-let chatSession: Chat | null = null;
+    return decodeAudioData(decode(base64Audio), getAudioContext(), 24000, 1);
+  },
 
-export const getChatSession = () => {
-  if (!chatSession) {
-    chatSession = ai.chats.create({
+  createChat: (systemInstruction, history = []) => {
+    const chat = getClient().chats.create({
       model: 'gemini-3-pro-preview',
+      config: { systemInstruction },
+      history: history.map(({ role, text }) => ({ role, parts: [{ text }] })),
+    });
+    return {
+      async *streamMessage(message, signal) {
+        // Per-message config replaces the chat's, so the instruction is repeated
+        const stream = await chat.sendMessageStream({ message, config: { systemInstruction, abortSignal: signal } });
+        for await (const chunk of stream) {
+          assertNotBlocked(chunk);
+          if (chunk.text) yield chunk.text;
+        }
+      },
+    };
+  },
+
+  transcribeSpeech: async (audio, language, signal) => {
+    const response = await getClient().models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: [{
+        parts: [
+          { inlineData: audio },
+          { text: `Transcribe this voice message, most likely spoken in ${getLanguage(language).name}. Reply with the transcript only, or nothing if no words are spoken.` },
+        ],
+      }],
+      config: { abortSignal: signal },
+    });
+
+    assertNotBlocked(response);
+    return response.text?.trim() || "";
+  },
+
+  summarizeChat: async (transcript, signal) => {
+    const response = await getClient().models.generateContent({
+      model: SCRIPT_MODEL,
+      contents: `
+        Summarize this conversation between a user and their meditation guide in a short paragraph,
+        written for the guide. Keep what matters for continuing it: how the user feels, what they are
+        working through, practices already suggested and how they responded.
+
+        Conversation:
+        ${transcript}
+      `,
+      config: { abortSignal: signal },
+    });
+
+    assertNotBlocked(response);
+    const summary = response.text?.trim();
+    if (!summary) throw new GenerationError("bad-response", "The conversation summary came back empty.");
+    return summary;
+  },
+
+  rewritePassage: async (passage, instruction, script, settings, signal) => {
+    const language = getLanguage(settings.language);
+    const response = await getClient().models.generateContent({
+      model: SCRIPT_MODEL,
+      contents: `
+        You are editing one paragraph of a guided meditation script. Rewrite the paragraph below as asked:
+        "${instruction}". Keep it in ${language.name}, in the voice of the rest of the script, and about the
+        same length unless asked otherwise. Keep any [pause Ns] or [breathe ...] markers where they still fit.
+        Reply with the rewritten paragraph only, on a single line, without quotes or commentary.
+
+        The whole script, for context:
+        ${script}
+
+        The paragraph to rewrite:
+        ${passage}
+      `,
+      config: { abortSignal: signal },
+    });
+
+    assertNotBlocked(response);
+    const rewritten = response.text?.trim().replace(/\s*\n+\s*/g, " ");
+    if (!rewritten) throw new GenerationError("bad-response", "The rewritten passage came back empty.");
+    return rewritten;
+  },
+
+  planSession: async (transcript, signal) => {
+    const response = await getClient().models.generateContent({
+      model: SCRIPT_MODEL,
+      contents: `
+        Below is a conversation between a user and their meditation guide. Based on it, describe the
+        guided meditation that would help the user most right now.
+
+        Return a JSON object with:
+        1. "mood": How the user is feeling, in their own terms (a short phrase).
+        2. "focus": What the session should help with (a few words, e.g. "Letting go of work stress").
+
+        Conversation:
+        ${transcript}
+      `,
       config: {
-        systemInstruction: "You are a wise, empathetic, and calming meditation teacher. Keep answers concise and soothing.",
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            mood: { type: Type.STRING },
+            focus: { type: Type.STRING },
+          },
+          required: ["mood", "focus"],
+        },
       },
     });
-  }
-  return chatSession;
-};
 
-export const sendMessageToGuide = async (message: string): Promise<string> => {
-  const chat = getChatSession();
-  try {
-    const result = await chat.sendMessage({ message });
-    return result.text || "I am here with you. Take a deep breath.";
-  } catch (e) {
-    console.error(e);
-    return "I'm having trouble connecting to the universal energy (API error). Please try again.";
-  }
+    assertNotBlocked(response);
+    let json;
+    try {
+      json = JSON.parse(response.text || "");
+    } catch (error) {
+      throw new GenerationError("bad-response", "The session plan came back malformed.", error);
+    }
+    if (!json.mood || !json.focus) throw new GenerationError("bad-response", "The session plan came back incomplete.");
+    return { mood: json.mood, focus: json.focus };
+  },
+
+  planCourse: async (params, days, signal) => {
+    const language = getLanguage(params.language);
+    const response = await getClient().models.generateContent({
+      model: SCRIPT_MODEL,
+      contents: `
+        Plan a ${days}-day guided meditation course for someone who wants to work on "${params.focus}"
+        ${params.mood ? `and is currently feeling "${params.mood}"` : ""}. Each day is a ${params.duration}-minute
+        session. Order the days so each builds on the ones before: start with foundations, deepen gradually,
+        and end by helping the listener carry the practice into daily life.
+
+        Write everything in ${language.name}. Return a JSON object with:
+        1. "title": A short title for the course.
+        2. "description": One or two sentences on what the course offers.
+        3. "days": Exactly ${days} items, each with a "title" and a "theme" (one sentence on what the day practises).
+      `,
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING },
+            description: { type: Type.STRING },
+            days: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: { title: { type: Type.STRING }, theme: { type: Type.STRING } },
+                required: ["title", "theme"],
+              },
+            },
+          },
+          required: ["title", "description", "days"],
+        },
+      },
+    });
+
+    assertNotBlocked(response);
+    let json;
+    try {
+      json = JSON.parse(response.text || "");
+    } catch (error) {
+      throw new GenerationError("bad-response", "The course plan came back malformed.", error);
+    }
+    const planned: CourseDayPlan[] = Array.isArray(json.days) ? json.days.filter((d: CourseDayPlan) => d?.title && d?.theme) : [];
+    if (planned.length < days) throw new GenerationError("bad-response", "The course plan came back incomplete.");
+    return {
+      title: json.title || `${days} days of ${params.focus}`,
+      description: json.description || "",
+      days: planned.slice(0, days).map(({ title, theme }) => ({ title, theme })),
+    };
+  },
 };
\ No newline at end of file
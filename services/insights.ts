@@ -0,0 +1,154 @@
+import { idbGet, idbGetAll, idbPut, STORES } from "../utils/db";
+import { MeditationSession, PracticeRecord } from "../types";
+
+// Practice history and the insights computed from it. Everything stays on
+// the device: records live in IndexedDB and the numbers are worked out here.
+
+export const MOOD_LEVELS = [
+  { value: 1, label: "Heavy" },
+  { value: 2, label: "Low" },
+  { value: 3, label: "Okay" },
+  { value: 4, label: "Good" },
+  { value: 5, label: "Bright" },
+];
+
+// Listening for less than this doesn't count as practice
+const MIN_PRACTICE_SECONDS = 30;
+
+/**
+ * Records a session that was listened to the end. Returns undefined when
+ * too little of it was actually heard (e.g. skipped straight to the end).
+ */
+export const recordPractice = async (
+  session: MeditationSession,
+  listenedSeconds: number,
+  moodBefore?: number,
+): Promise<PracticeRecord | undefined> => {
+  if (listenedSeconds < MIN_PRACTICE_SECONDS) return undefined;
+  const record: PracticeRecord = {
+    id: crypto.randomUUID(),
+    sessionId: session.id,
+    title: session.title,
+    kind: session.timer ? "timer" : "guided",
+    mood: session.params?.mood ?? "",
+    focus: session.timer ? "Silent sit" : session.params?.focus ?? "",
+    minutes: Math.round((listenedSeconds / 60) * 10) / 10,
+    moodBefore,
+    completedAt: Date.now(),
+  };
+  await idbPut(STORES.practice, record);
+  return record;
+};
+
+export const rateMoodAfter = async (id: string, moodAfter: number): Promise<void> => {
+  const record = await idbGet<PracticeRecord>(STORES.practice, id);
+  if (record) await idbPut(STORES.practice, { ...record, moodAfter });
+};
+
+/**
+ * Every practice record, oldest first.
+ */
+export const listPractice = async (): Promise<PracticeRecord[]> => {
+  const records = await idbGetAll<PracticeRecord>(STORES.practice);
+  return records.sort((a, b) => a.completedAt - b.completedAt);
+};
+
+export interface MoodPoint {
+  at: number; // completedAt
+  before: number;
+  after: number;
+}
+
+export interface FocusTrend {
+  focus: string;
+  sessions: number;
+  minutes: number;
+  points: MoodPoint[]; // sessions rated both before and after, oldest first
+  averageChange?: number; // mean of after - before
+}
+
+export interface Insights {
+  sessions: number;
+  totalMinutes: number;
+  currentStreak: number; // consecutive days up to today (or yesterday)
+  longestStreak: number;
+  practicedToday: boolean;
+  byFocus: FocusTrend[]; // most practised first
+}
+
+// Days since the epoch in local time, so streaks follow the user's calendar
+const localDay = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return Math.round(new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() / 86_400_000);
+};
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+export const computeInsights = (records: PracticeRecord[], now = Date.now()): Insights => {
+  const days = [...new Set(records.map((r) => localDay(r.completedAt)))].sort((a, b) => a - b);
+  const practiced = new Set(days);
+  const today = localDay(now);
+
+  let longestStreak = 0;
+  let run = 0;
+  days.forEach((day, i) => {
+    run = i > 0 && day === days[i - 1] + 1 ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+  });
+
+  // A streak isn't broken until a whole day passes without practice
+  let currentStreak = 0;
+  for (let day = practiced.has(today) ? today : today - 1; practiced.has(day); day--) currentStreak++;
+
+  // Focus areas are grouped regardless of case and spacing
+  const groups = new Map<string, PracticeRecord[]>();
+  records.forEach((record) => {
+    const key = record.focus.trim().toLowerCase().replace(/\s+/g, " ");
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  });
+  const byFocus = [...groups.values()]
+    .map((group): FocusTrend => {
+      const points = group
+        .filter((r) => r.moodBefore !== undefined && r.moodAfter !== undefined)
+        .map((r) => ({ at: r.completedAt, before: r.moodBefore!, after: r.moodAfter! }));
+      return {
+        focus: group[group.length - 1].focus.trim() || "Unspecified",
+        sessions: group.length,
+        minutes: group.reduce((sum, r) => sum + r.minutes, 0),
+        points,
+        averageChange: points.length ? average(points.map((p) => p.after - p.before)) : undefined,
+      };
+    })
+    .sort((a, b) => b.sessions - a.sessions);
+
+  return {
+    sessions: records.length,
+    totalMinutes: records.reduce((sum, r) => sum + r.minutes, 0),
+    currentStreak,
+    longestStreak,
+    practicedToday: practiced.has(today),
+    byFocus,
+  };
+};
+
+const CSV_COLUMNS: (keyof PracticeRecord)[] = [
+  "completedAt", "title", "kind", "focus", "mood", "minutes", "moodBefore", "moodAfter", "sessionId", "id",
+];
+
+// Quoted, and defused so spreadsheet apps don't run text as a formula
+const csvCell = (value: unknown): string => {
+  const text = value === undefined ? "" : String(value);
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return `"${safe.replace(/"/g, '""')}"`;
+};
+
+export const practiceToCSV = (records: PracticeRecord[]): string =>
+  [
+    CSV_COLUMNS.join(","),
+    ...records.map((record) =>
+      CSV_COLUMNS.map((column) =>
+        csvCell(column === "completedAt" ? new Date(record.completedAt).toISOString() : record[column])).join(",")),
+  ].join("\r\n");
+
+export const practiceToJSON = (records: PracticeRecord[]): string =>
+  JSON.stringify({ exportedAt: new Date().toISOString(), records }, null, 2);
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { idbDelete, idbGet, idbGetAll, idbPut, STORES } from "../utils/db";
+import { decodeAudioData, encodePCM, getAudioContext } from "../utils/audio";
+import { normalizeParams } from "../utils/params";
+import { MeditationSession, SavedAudio, SavedSession } from "../types";
+
+/**
+ * Persists a generated session (metadata, image and raw PCM audio) to IndexedDB.
+ * Returns the session with its library id attached.
+ */
+export const saveSession = async (session: MeditationSession): Promise<MeditationSession> => {
+  const id = session.id || crypto.randomUUID();
+  const now = Date.now();
+  const existing = session.id ? await idbGet<SavedSession>(STORES.sessions, id) : undefined;
+
+  const record: SavedSession = {
+    id,
+    title: session.title,
+    script: session.script,
+    imagePrompt: session.imagePrompt,
+    imageUrl: session.imageUrl,
+    params: session.params,
+    audioDuration: session.audioBuffer?.duration,
+    cues: session.cues,
+    edited: session.edited,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  await idbPut(STORES.sessions, record);
+
+  if (session.audioBuffer) {
+    const audio: SavedAudio = {
+      id,
+      pcm: encodePCM(session.audioBuffer).buffer as ArrayBuffer,
+      sampleRate: session.audioBuffer.sampleRate,
+      numChannels: session.audioBuffer.numberOfChannels,
+    };
+    await idbPut(STORES.audio, audio);
+  }
+
+  return { ...session, id };
+};
+
+/**
+ * Lists saved sessions, newest first. Audio is not loaded.
+ */
+export const listSessions = async (): Promise<SavedSession[]> => {
+  const sessions = await idbGetAll<SavedSession>(STORES.sessions);
+  return sessions
+    .map((session) => ({ ...session, params: normalizeParams(session.params) }))
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * Loads a saved session and rebuilds its AudioBuffer from the stored PCM,
+ * so replaying never needs another Gemini call.
+ */
+export const loadSession = async (id: string): Promise<MeditationSession> => {
+  const record = await idbGet<SavedSession>(STORES.sessions, id);
+  if (!record) throw new Error("Session not found in library");
+
+  const audio = await idbGet<SavedAudio>(STORES.audio, id);
+  const audioBuffer = audio
+    ? await decodeAudioData(new Uint8Array(audio.pcm), getAudioContext(), audio.sampleRate, audio.numChannels)
+    : undefined;
+
+  return {
+    id: record.id,
+    title: record.title,
+    script: record.script,
+    imagePrompt: record.imagePrompt,
+    imageUrl: record.imageUrl,
+    params: normalizeParams(record.params),
+    cues: record.cues,
+    edited: record.edited,
+    audioBuffer,
+  };
+};
+
+export const renameSession = async (id: string, title: string): Promise<void> => {
+  const record = await idbGet<SavedSession>(STORES.sessions, id);
+  if (!record) throw new Error("Session not found in library");
+  await idbPut(STORES.sessions, { ...record, title, updatedAt: Date.now() });
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await Promise.all([
+    idbDelete(STORES.sessions, id),
+    idbDelete(STORES.audio, id),
+  ]);
+};
+
+/**
+ * Case-insensitive match against title, script and the original prompt.
+ */
+export const matchesQuery = (session: SavedSession, query: string): boolean => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [session.title, session.script, session.params?.mood, session.params?.focus]
+    .some((field) => field?.toLowerCase().includes(q));
+};
\ No newline at end of file
@@ -0,0 +1,879 @@
+import { decodeAudioData, encode, encodePCM, getAudioContext, spliceAudio, stitchAudio, StitchPiece, CROSSFADE_SECONDS } from "../utils/audio";
+import { parseScript, chunkSpeech, restoreMarkers, rewritePauses, splitSentences, stripPauseMarkers } from "../utils/script";
+import { planBudget, getSpeakingRate, countWords, recordSpeakingRate, isWithinTolerance, fitNextPause, ScriptBudget } from "../utils/pacing";
+import { DEFAULT_VOICE_SETTINGS, getLanguage } from "../utils/voices";
+import { estimateCues, findActiveCue } from "../utils/timing";
+import { formatTime } from "../utils/format";
+import { hashString } from "../utils/hash";
+import { toPlainText } from "../utils/markdown";
+import { BreathPhase, formatBreathingMarker, renderBreathingCues, resolveTiming } from "../utils/breathing";
+import { createLimiter } from "../utils/concurrency";
+import { linkedController, withRetry } from "../utils/retry";
+import { AudioClip, ChatMessage, ChatThread, CoursePlan, GenerationParams, GenerationStep, LiveAudio, MeditationSession, SavedAudio, ScriptCue, SessionRequest, StepState, SynthesizedAudio, VoiceSettings } from "../types";
+import { ChatTurn, GuideChat, MeditationProvider, resolveProviderName } from "./provider";
+import { GenerationError, failedStep, toGenerationError } from "./errors";
+import { cacheGet, cacheKey, cachePut, isCached, normalizePrompt } from "./cache";
+import { geminiProvider } from "./gemini";
+import { mockProvider } from "./mock";
+
+// App-facing generation API. Provider-agnostic work (budgets, segmenting,
+// stitching, timeouts and retries) happens here; the provider only talks to the model.
+
+let provider: MeditationProvider | null = null;
+
+export const getProvider = (): MeditationProvider => {
+  if (!provider) {
+    provider = resolveProviderName() === "mock" ? mockProvider : geminiProvider;
+  }
+  return provider;
+};
+
+// Per-attempt timeout and retries for each kind of call. A streamed script
+// gets one long timeout, since a long session takes a while to write.
+const CALL_POLICY = {
+  script: { timeoutMs: 180_000, retries: 2 },
+  image: { timeoutMs: 60_000, retries: 2 },
+  speech: { timeoutMs: 45_000, retries: 3 },
+  chat: { timeoutMs: 60_000, retries: 1 },
+};
+
+/**
+ * Runs a provider call under its timeout and retry policy. Always rejects
+ * with a GenerationError.
+ */
+const callProvider = <T>(
+  kind: keyof typeof CALL_POLICY,
+  task: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal,
+  shouldRetry: (error: GenerationError) => boolean = (error) => error.retryable,
+): Promise<T> =>
+  withRetry(task, { ...CALL_POLICY[kind], signal, shouldRetry: (error) => shouldRetry(toGenerationError(error)) })
+    .catch((error) => {
+      throw toGenerationError(error);
+    });
+
+// What is cached of a written script
+type CachedScript = Pick<MeditationSession, "title" | "script" | "imagePrompt">;
+
+// Everything that shapes a script: the request, the voice (its pace sets the
+// word budget) and the model
+const scriptKey = (params: GenerationParams) => {
+  const { name, models } = getProvider();
+  return cacheKey("script", [
+    name, models.script, normalizePrompt(params.mood), normalizePrompt(params.focus), normalizePrompt(params.style),
+    params.duration, params.language, params.voice, params.pace,
+    params.course && `${params.course.courseId}:${params.course.day}`,
+  ]);
+};
+
+const cacheScript = ({ title, script, imagePrompt }: CachedScript, params: GenerationParams) =>
+  cachePut(scriptKey(params), "script", { title, script, imagePrompt }, (title.length + script.length + imagePrompt.length) * 2);
+
+/**
+ * Generates the meditation script and image prompt. An identical earlier
+ * request is answered from the cache unless `fresh` is set.
+ */
+export const generateMeditationContent = async (
+  params: GenerationParams,
+  budget: ScriptBudget = planBudget(params.duration, getSpeakingRate(params)),
+  signal?: AbortSignal,
+  fresh = false,
+): Promise<MeditationSession> => {
+  const cached = fresh ? undefined : await cacheGet<CachedScript>(scriptKey(params));
+  if (cached) return { ...cached };
+  const content = await callProvider("script", (attempt) => getProvider().generateScript(params, budget, attempt), signal);
+  cacheScript(content, params);
+  return content;
+};
+
+/**
+ * Rewrites one line of a script as `instruction` asks. Only the speech
+ * changes; markers the model drops are put back where they were.
+ */
+export const rewriteScriptLine = async (
+  line: string,
+  instruction: string,
+  script: string,
+  settings: VoiceSettings,
+  signal?: AbortSignal,
+): Promise<string> => {
+  const rewritten = await callProvider("script", (attempt) => getProvider().rewritePassage(line, instruction, script, settings, attempt), signal);
+  return restoreMarkers(line, rewritten);
+};
+
+/**
+ * Generates the background image, or reuses one made for the same prompt
+ * unless `fresh` is set.
+ */
+export const generateMeditationImage = async (prompt: string, signal?: AbortSignal, fresh = false): Promise<string> => {
+  const { name, models } = getProvider();
+  const key = cacheKey("image", [name, models.image, normalizePrompt(prompt)]);
+  const cached = fresh ? undefined : await cacheGet<string>(key);
+  if (cached) return cached;
+  const url = await callProvider("image", (attempt) => getProvider().generateImage(prompt, attempt), signal);
+  cachePut(key, "image", url, url.length);
+  return url;
+};
+
+/**
+ * Plans a course of `days` sessions. Each day's session is generated later,
+ * when the user reaches it, with the plan as context.
+ */
+export const planCourse = (params: GenerationParams, days: number, signal?: AbortSignal): Promise<CoursePlan> =>
+  callProvider("script", (attempt) => getProvider().planCourse(params, days, attempt), signal);
+
+// Voiced speech is cached by content, voice and model, so an edited script
+// only sends what changed to TTS. The most recent is also kept decoded in
+// memory, bounded by total length, least recently used first out.
+const RECENT_SPEECH_SECONDS = 20 * 60;
+const recentSpeech = new Map<string, AudioBuffer>();
+let recentSpeechSeconds = 0;
+
+const speechKey = (text: string, settings: VoiceSettings) => {
+  const { name, models } = getProvider();
+  return cacheKey("speech", [name, models.speech, settings.voice, settings.pace, settings.language, text]);
+};
+
+const getRecentSpeech = (key: string): AudioBuffer | undefined => {
+  const buffer = recentSpeech.get(key);
+  if (buffer) {
+    recentSpeech.delete(key);
+    recentSpeech.set(key, buffer);
+  }
+  return buffer;
+};
+
+const keepRecentSpeech = (key: string, buffer: AudioBuffer) => {
+  if (recentSpeech.has(key)) return;
+  recentSpeech.set(key, buffer);
+  recentSpeechSeconds += buffer.duration;
+  for (const [oldest, kept] of recentSpeech) {
+    if (recentSpeechSeconds <= RECENT_SPEECH_SECONDS) break;
+    recentSpeech.delete(oldest);
+    recentSpeechSeconds -= kept.duration;
+  }
+};
+
+// Speaks one segment, from the stored PCM when it was voiced before
+const voiceSegment = async (key: string, text: string, settings: VoiceSettings, fresh: boolean, signal: AbortSignal): Promise<AudioBuffer> => {
+  const stored = fresh ? undefined : await cacheGet<Omit<SavedAudio, "id">>(key);
+  if (stored) return decodeAudioData(new Uint8Array(stored.pcm), getAudioContext(), stored.sampleRate, stored.numChannels);
+
+  const buffer = await callProvider("speech", (attempt) => getProvider().synthesizeSpeech(text, settings, attempt), signal);
+  const pcm = encodePCM(buffer).buffer as ArrayBuffer;
+  cachePut(key, "speech", { pcm, sampleRate: buffer.sampleRate, numChannels: buffer.numberOfChannels }, pcm.byteLength);
+  return buffer;
+};
+
+/**
+ * Whether every piece of speech on a script line has already been voiced
+ * with these settings, i.e. voicing it again costs no TTS request.
+ */
+export const isLineVoiced = (line: string, settings: VoiceSettings): boolean =>
+  parseScript(line).every((part) =>
+    part.kind !== "speech" || chunkSpeech(part.text).every((text) => {
+      const key = speechKey(text, settings);
+      return recentSpeech.has(key) || isCached(key);
+    }));
+
+// Parallel TTS requests per session, to stay within rate limits
+const TTS_CONCURRENCY = 3;
+// Silence between paragraphs that have no explicit pause marker
+const PARAGRAPH_GAP_SECONDS = 1.2;
+
+// The script in playback order: speech chunks, pauses and breathing
+// exercises (rendered cue tones). `marker` separates the script's own pauses
+// from inserted paragraph gaps.
+type Segment =
+  | { kind: "speech"; text: string; paragraph: number; joinPrevious: boolean; words: number; buffer?: AudioBuffer }
+  | { kind: "pause"; seconds: number; marker: boolean }
+  | { kind: "breathing"; buffer: AudioBuffer };
+
+interface TrackProgress {
+  clips: AudioClip[];
+  available: number;
+  cues: ScriptCue[];
+  pending: { text: string; paragraph: number }[];
+  paragraphs: number;
+  done: boolean;
+  error?: GenerationError; // the first segment that failed for good
+}
+
+interface VoiceTrack {
+  /** Adds complete script lines; their speech starts synthesizing right away. */
+  addLines: (lines: string[]) => void;
+  /** Everything laid out so far, plus the speech still waiting for audio. */
+  progress: () => TrackProgress;
+  /** Marks the script complete, waits for every segment and stitches the final audio. */
+  finish: () => Promise<SynthesizedAudio>;
+}
+
+/**
+ * Synthesizes a script that may still be arriving. Each paragraph (split
+ * further if very long) is its own TTS request, and segments are laid out on
+ * the timeline in order as soon as they and everything before them are ready.
+ * With a target length, each pause is rescaled when it is laid out, from the
+ * speech measured so far and an estimate of what is still to come.
+ * The first segment to fail for good cancels the rest.
+ */
+const createVoiceTrack = (
+  settings: VoiceSettings,
+  { targetSeconds, budget, signal, fresh = false, onProgress }: {
+    targetSeconds?: number;
+    budget?: ScriptBudget;
+    signal?: AbortSignal;
+    fresh?: boolean; // voice everything again rather than reuse cached speech
+    onProgress?: () => void;
+  } = {},
+): VoiceTrack => {
+  const segments: Segment[] = [];
+  const lines: string[] = [];
+  const synthesis: Promise<void>[] = [];
+  const run = createLimiter(TTS_CONCURRENCY);
+  const controller = linkedController(signal);
+  let failure: GenerationError | undefined;
+  let paragraph = 0;
+  let scriptDone = false;
+  let wordsAdded = 0;
+  let pauseAdded = 0;
+
+  // Timeline state
+  const clips: AudioClip[] = [];
+  const cues: ScriptCue[] = [];
+  const markerSeconds: number[] = [];
+  let laidOut = 0;
+  let cursor = 0;
+  let speechSeconds = 0;
+  let speechWords = 0;
+
+  const fitPause = (index: number, seconds: number) => {
+    if (!targetSeconds) return seconds;
+    const secondsPerWord = speechWords
+      ? speechSeconds / speechWords
+      : 60 / getSpeakingRate(settings);
+    let words = 0;
+    let gaps = 0;
+    let markers = 0;
+    segments.slice(index).forEach((segment) => {
+      if (segment.kind === "speech") words += segment.words;
+      else if (segment.kind === "breathing") gaps += segment.buffer.duration;
+      else if (segment.marker) markers += segment.seconds;
+      else gaps += segment.seconds;
+    });
+    // Until the script is complete, assume it will use up its budget
+    if (!scriptDone && budget) {
+      words += Math.max(0, budget.words - wordsAdded);
+      markers += Math.max(0, budget.pauseSeconds - pauseAdded);
+    }
+    return fitNextPause(seconds, markers, targetSeconds - cursor - words * secondsPerWord - gaps);
+  };
+
+  const advance = () => {
+    const before = laidOut;
+    while (laidOut < segments.length) {
+      const segment = segments[laidOut];
+      if (segment.kind === "speech") {
+        if (!segment.buffer) break;
+        const previous = segments[laidOut - 1];
+        const start = segment.joinPrevious && previous?.kind === "speech"
+          ? Math.max(0, cursor - CROSSFADE_SECONDS)
+          : cursor;
+        clips.push({ buffer: segment.buffer, start });
+        estimateCues(segment.text, segment.buffer).forEach((cue) => {
+          cues.push({ ...cue, paragraph: segment.paragraph, start: cue.start + start, end: cue.end + start });
+        });
+        cursor = start + segment.buffer.duration;
+        speechSeconds += segment.buffer.duration;
+        speechWords += segment.words;
+      } else if (segment.kind === "breathing") {
+        clips.push({ buffer: segment.buffer, start: cursor });
+        cursor += segment.buffer.duration;
+      } else {
+        if (segment.marker) {
+          segment.seconds = fitPause(laidOut, segment.seconds);
+          markerSeconds.push(segment.seconds);
+        }
+        cursor += segment.seconds;
+      }
+      laidOut++;
+    }
+    if (laidOut !== before) onProgress?.();
+  };
+
+  const addLines = (added: string[]) => added.forEach((line) => {
+    lines.push(line);
+    let hasSpeech = false;
+    parseScript(line).forEach((part) => {
+      if (part.kind === "pause") {
+        segments.push({ ...part, marker: true });
+        pauseAdded += part.seconds;
+        return;
+      }
+      if (part.kind === "breathing") {
+        segments.push({ kind: "breathing", buffer: renderBreathingCues(getAudioContext(), part.timing, part.rounds) });
+        return;
+      }
+      hasSpeech = true;
+      if (segments[segments.length - 1]?.kind === "speech") {
+        segments.push({ kind: "pause", seconds: PARAGRAPH_GAP_SECONDS, marker: false });
+      }
+      chunkSpeech(part.text).forEach((text, i) => {
+        const segment: Segment = {
+          kind: "speech",
+          text,
+          paragraph,
+          joinPrevious: i > 0,
+          words: countWords(text, settings.language),
+        };
+        segments.push(segment);
+        wordsAdded += segment.words;
+        const key = speechKey(text, settings);
+        const recent = fresh ? undefined : getRecentSpeech(key);
+        synthesis.push(
+          (recent ? Promise.resolve(recent) : run(() => voiceSegment(key, text, settings, fresh, controller.signal)))
+            .then((buffer) => {
+              keepRecentSpeech(key, buffer);
+              segment.buffer = buffer;
+              advance();
+            })
+            .catch((error: GenerationError) => {
+              if (failure) return;
+              failure = error;
+              controller.abort();
+              onProgress?.();
+            }),
+        );
+      });
+    });
+    if (hasSpeech) paragraph++;
+    // A new pause right after audio that is already laid out can be placed now
+    advance();
+  });
+
+  const progress = () => ({
+    clips: [...clips],
+    available: cursor,
+    cues: [...cues],
+    pending: segments
+      .slice(laidOut)
+      .flatMap((s) => (s.kind === "speech" ? [{ text: s.text, paragraph: s.paragraph }] : [])),
+    paragraphs: paragraph,
+    done: scriptDone && laidOut === segments.length,
+    error: failure,
+  });
+
+  const finish = async (): Promise<SynthesizedAudio> => {
+    scriptDone = true;
+    await Promise.all(synthesis);
+    if (failure) throw failure;
+    if (!synthesis.length) throw new GenerationError("bad-response", "The script has no speech to voice.");
+    onProgress?.();
+
+    recordSpeakingRate(settings, speechWords, speechSeconds);
+
+    const pieces: StitchPiece[] = segments.map((segment) => {
+      if (segment.kind === "speech") return { kind: "audio", buffer: segment.buffer!, joinPrevious: segment.joinPrevious };
+      if (segment.kind === "breathing") return { kind: "audio", buffer: segment.buffer };
+      return { kind: "silence", seconds: segment.seconds };
+    });
+    const { buffer, offsets } = stitchAudio(getAudioContext(), pieces);
+
+    // Segment start times are exact; sentences within a segment are estimated
+    const stitchedCues: ScriptCue[] = [];
+    segments.forEach((segment, i) => {
+      if (segment.kind !== "speech") return;
+      estimateCues(segment.text, segment.buffer).forEach((cue) => {
+        stitchedCues.push({ ...cue, paragraph: segment.paragraph, start: cue.start + offsets[i], end: cue.end + offsets[i] });
+      });
+    });
+
+    const script = lines.join("\n");
+    return {
+      audioBuffer: buffer,
+      cues: stitchedCues,
+      script: targetSeconds ? rewritePauses(script, markerSeconds) : script,
+      speechSeconds,
+      targetMissed: !!targetSeconds && !isWithinTolerance(cursor, targetSeconds),
+    };
+  };
+
+  return { addLines, progress, finish };
+};
+
+/**
+ * What a track has so far, as the session sees it: playable clips plus every
+ * sentence, with the ones still waiting for audio (and `draft`, the line
+ * being written) left untimed at the end.
+ */
+const liveSnapshot = (progress: TrackProgress, expectedDuration: number, writing: boolean, draft = "") => {
+  const pending = [
+    ...progress.pending,
+    ...(draft ? [{ text: draft, paragraph: progress.paragraphs }] : []),
+  ].flatMap(({ text, paragraph }) => splitSentences(text).map((sentence) => ({ text: sentence, paragraph, start: 0, end: 0 })));
+
+  const live: LiveAudio = {
+    clips: progress.clips,
+    available: progress.available,
+    expectedDuration,
+    writing,
+    done: progress.done,
+  };
+  return { live, cues: [...progress.cues, ...pending] };
+};
+
+export interface AudioOptions {
+  targetSeconds?: number;
+  signal?: AbortSignal;
+  fresh?: boolean; // voice every segment again, even if cached
+  /** Called as segments become playable, for progressive playback. */
+  onUpdate?: (live: LiveAudio, cues: ScriptCue[]) => void;
+}
+
+/**
+ * Generates speech for a complete script with the active provider, with real
+ * silence for every [pause Ns] marker. With a target length, the pauses are
+ * rescaled to land on it once the real speech length is known.
+ * Rejects with a GenerationError if any segment can't be voiced.
+ */
+export const generateMeditationAudio = async (
+  script: string,
+  settings: VoiceSettings = DEFAULT_VOICE_SETTINGS,
+  { targetSeconds, signal, fresh, onUpdate }: AudioOptions = {},
+): Promise<SynthesizedAudio> => {
+  const track = createVoiceTrack(settings, {
+    targetSeconds,
+    signal,
+    fresh,
+    onProgress: () => {
+      if (!onUpdate) return;
+      const { live, cues } = liveSnapshot(track.progress(), targetSeconds ?? 0, false);
+      onUpdate(live, cues);
+    },
+  });
+  track.addLines(script.split("\n"));
+  return track.finish();
+};
+
+// "Title:" and "Image:" lines that precede a streamed script
+const HEADER_PATTERN = /^[\s*#]*(title|image)[\s*]*:[\s*]*(.*?)[\s*]*$/i;
+
+export interface StreamOptions {
+  signal?: AbortSignal;
+  /** Receives a snapshot of the session after every step. */
+  onUpdate: (session: MeditationSession) => void;
+  /** Reports the state of the script, audio and image steps. */
+  onStep?: (step: GenerationStep, state: StepState) => void;
+  /** Skips the cache: writes, voices and paints everything anew. */
+  fresh?: boolean;
+  /** An image to use instead of generating one, e.g. an earlier session's. */
+  imageUrl?: string;
+}
+
+/**
+ * Generates a session progressively: the script streams in line by line,
+ * each paragraph is voiced as soon as it is complete, and the image starts
+ * once its prompt is known. Snapshots carry `live`, describing the audio so
+ * far, so playback can begin early.
+ *
+ * A script written before for the same request is replayed from the cache
+ * instead, and voiced from cached speech where it can be.
+ *
+ * Only a failed script rejects (with a GenerationError). If the audio or
+ * image fails, the session is returned without it and the step is reported
+ * as failed, so just that part can be retried.
+ */
+export const streamMeditation = async (
+  params: GenerationParams,
+  { signal, onUpdate, onStep, fresh = false, imageUrl }: StreamOptions,
+): Promise<MeditationSession> => {
+  const targetSeconds = params.duration * 60;
+  const budget = planBudget(params.duration, getSpeakingRate(params));
+  const controller = linkedController(signal);
+  const session: MeditationSession = { title: "", script: "", imagePrompt: "", params };
+  const scriptLines: string[] = [];
+  let tail = ""; // the line currently being written
+  let writing = true;
+  let imagePromise: Promise<void> | undefined;
+  let audioFailed = false;
+
+  const emit = () => {
+    const progress = track.progress();
+    if (progress.error && progress.error.kind !== "cancelled" && !audioFailed) {
+      audioFailed = true;
+      onStep?.("audio", failedStep(progress.error));
+    }
+    // The unfinished line is held back while it could still be a header
+    const inScript = scriptLines.length > 0 || (session.title && session.imagePrompt);
+    const draft = writing && inScript ? stripPauseMarkers(tail.replace(/\[[^\]]*$/, "")) : "";
+    onUpdate({ ...session, ...liveSnapshot(progress, targetSeconds, writing, draft) });
+  };
+
+  const track = createVoiceTrack(params, { targetSeconds, budget, signal: controller.signal, fresh, onProgress: emit });
+
+  const startImage = () => {
+    if (imagePromise) return;
+    onStep?.("image", { status: "running" });
+    imagePromise = (imageUrl ? Promise.resolve(imageUrl) : generateMeditationImage(session.imagePrompt, controller.signal, fresh)).then(
+      (url) => {
+        session.imageUrl = url;
+        onStep?.("image", { status: "done" });
+        emit();
+      },
+      (error: GenerationError) => {
+        if (error.kind !== "cancelled") onStep?.("image", failedStep(error));
+      },
+    );
+  };
+
+  const readLine = (line: string) => {
+    const header = !scriptLines.length && line.match(HEADER_PATTERN);
+    if (header) {
+      if (header[1].toLowerCase() === "title") session.title = header[2];
+      else {
+        session.imagePrompt = header[2];
+        startImage();
+      }
+      return;
+    }
+    if (!scriptLines.length && !line.trim()) return;
+    if (!scriptLines.length) onStep?.("audio", { status: "running" });
+    scriptLines.push(line);
+    session.script = scriptLines.join("\n");
+    track.addLines([line]);
+  };
+
+  onStep?.("script", { status: "running" });
+  const cached = fresh ? undefined : await cacheGet<CachedScript>(scriptKey(params));
+  let received = false;
+  try {
+    if (cached) {
+      session.title = cached.title;
+      session.imagePrompt = cached.imagePrompt;
+      startImage();
+      cached.script.split("\n").forEach(readLine);
+    } else {
+      // Only a stream that hasn't produced anything yet can be retried cleanly
+      await callProvider("script", async (attempt) => {
+        for await (const chunk of getProvider().streamScript(params, budget, attempt)) {
+          received = true;
+          const lines = (tail + chunk).split("\n");
+          tail = lines.pop() ?? "";
+          lines.forEach(readLine);
+          emit();
+        }
+      }, controller.signal, (error) => !received && error.retryable);
+    }
+    readLine(tail);
+    tail = "";
+    writing = false;
+    if (!session.script.trim()) throw new GenerationError("bad-response", "The script came back empty.");
+  } catch (error) {
+    const failure = toGenerationError(error);
+    controller.abort();
+    if (failure.kind !== "cancelled") onStep?.("script", failedStep(failure));
+    throw failure;
+  }
+  onStep?.("script", { status: "done" });
+
+  session.title ||= "Meditation Session";
+  session.imagePrompt ||= "A peaceful abstract landscape with soft colors";
+  if (!cached) cacheScript(session, params);
+  startImage();
+  emit();
+
+  let audio: SynthesizedAudio | undefined;
+  try {
+    audio = await track.finish();
+    onStep?.("audio", { status: "done" });
+  } catch (error) {
+    console.error("Audio generation failed:", error);
+    if (!audioFailed && (error as GenerationError).kind !== "cancelled") {
+      onStep?.("audio", failedStep(error as GenerationError));
+    }
+  }
+  await imagePromise;
+  if (signal?.aborted) throw toGenerationError(signal.reason);
+
+  return {
+    ...session,
+    script: audio?.script ?? session.script,
+    audioBuffer: audio?.audioBuffer,
+    cues: audio?.cues,
+    targetMissed: audio?.targetMissed,
+  };
+};
+
+// Previews are short but not free, so keep each one for the session
+const previewCache = new Map<string, Promise<AudioBuffer>>();
+
+/**
+ * Synthesizes a one-line sample of a voice in the chosen pace and language.
+ */
+export const previewVoice = (settings: VoiceSettings): Promise<AudioBuffer> => {
+  const key = `${settings.voice}:${settings.pace}:${settings.language}`;
+  let preview = previewCache.get(key);
+  if (!preview) {
+    preview = getProvider().synthesizeSpeech(getLanguage(settings.language).sample, settings);
+    previewCache.set(key, preview);
+    // Don't cache failures
+    preview.catch(() => previewCache.delete(key));
+  }
+  return preview;
+};
+
+// Spoken prompts for the breathing exercise; holds share one
+const BREATHING_PROMPTS: Record<BreathPhase, string> = {
+  "inhale": "Breathe in.",
+  "hold-in": "Hold.",
+  "exhale": "Breathe out.",
+  "hold-out": "Hold.",
+};
+
+const promptCache = new Map<string, Promise<Record<BreathPhase, AudioBuffer>>>();
+
+/**
+ * Voices the breathing prompts ("breathe in", "hold", ...) once per voice.
+ */
+export const getBreathingPrompts = (settings: VoiceSettings, signal?: AbortSignal): Promise<Record<BreathPhase, AudioBuffer>> => {
+  const key = `${settings.voice}:${settings.pace}:${settings.language}`;
+  let prompts = promptCache.get(key);
+  if (!prompts) {
+    const texts = [...new Set(Object.values(BREATHING_PROMPTS))];
+    prompts = Promise.all(
+      texts.map((text) => callProvider("speech", (attempt) => getProvider().synthesizeSpeech(text, settings, attempt), signal)),
+    ).then((buffers) => {
+      const byText = new Map(texts.map((text, i) => [text, buffers[i]]));
+      return Object.fromEntries(
+        Object.entries(BREATHING_PROMPTS).map(([phase, text]) => [phase, byText.get(text)!]),
+      ) as Record<BreathPhase, AudioBuffer>;
+    });
+    promptCache.set(key, prompts);
+    // Don't cache failures
+    prompts.catch(() => promptCache.delete(key));
+  }
+  return prompts;
+};
+
+/**
+ * Adds a breathing exercise to a finished session, right after the paragraph
+ * playing at `position`. Its cue tones are spliced into the existing audio
+ * and a marker goes into the script, so nothing has to be voiced again.
+ * `at` is where the exercise starts in the new audio, which is before
+ * `position` when that was in the pause after the paragraph.
+ */
+export const insertBreathing = (
+  session: MeditationSession,
+  spec: string,
+  rounds: number,
+  position: number,
+): { session: MeditationSession; at: number } => {
+  const timing = resolveTiming(spec);
+  if (!session.audioBuffer || !timing) throw new Error("Breathing can only be added to a finished session");
+
+  const cues = session.cues || estimateCues(session.script, session.audioBuffer);
+  const active = findActiveCue(cues, position);
+  const paragraph = active >= 0 ? cues[active].paragraph : -1;
+  const at = cues.reduce((end, cue) => (cue.paragraph === paragraph ? Math.max(end, cue.end) : end), 0);
+
+  const tones = renderBreathingCues(getAudioContext(), timing, rounds);
+  const audioBuffer = spliceAudio(getAudioContext(), session.audioBuffer, at, tones);
+  const shifted = cues.map((cue) =>
+    cue.start >= at ? { ...cue, start: cue.start + tones.duration, end: cue.end + tones.duration } : cue);
+
+  // The marker goes on its own line after the paragraph's line
+  const lines = session.script.split("\n");
+  let seen = -1;
+  let insertAt = 0;
+  lines.forEach((line, i) => {
+    if (parseScript(line).some((part) => part.kind === "speech")) seen++;
+    if (seen === paragraph && insertAt === 0 && paragraph >= 0) insertAt = i + 1;
+  });
+  lines.splice(insertAt, 0, formatBreathingMarker(spec, rounds));
+
+  return { session: { ...session, script: lines.join("\n"), audioBuffer, cues: shifted }, at };
+};
+
+// What the guide knows about the meditation the user is listening to
+export interface GuideContext {
+  session: MeditationSession;
+  position: number; // seconds into playback
+}
+
+// Sentences before the playback position quoted with every message
+const RECENT_CUES = 3;
+
+const GUIDE_INSTRUCTION = `You are a wise, empathetic, and calming meditation teacher. Keep answers concise and soothing.
+Messages may begin with a [Session context] block describing the guided meditation the user is listening to
+and where they are in it. Use it to answer questions about the session ("what did the last part mean?"),
+but never mention the block itself.`;
+
+// Once a thread's model-side history passes the budget, older turns are
+// summarized until only about KEEP_TOKENS of recent conversation remain verbatim.
+const CHAT_TOKEN_BUDGET = 6000;
+const CHAT_KEEP_TOKENS = 2000;
+
+// Rough token count; close enough for deciding when to summarize
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const toTranscript = (messages: ChatMessage[]) =>
+  messages.map((m) => `${m.role === "user" ? "User" : "Guide"}: ${m.text}`).join("\n");
+
+// The model chat for the open thread
+let chatSession: GuideChat | null = null;
+let chatThreadId: string | null = null;
+// Session whose full script the chat has already been given
+let sharedSessionKey: number | null = null;
+
+/**
+ * Rebuilds the model history for a thread: its summary, then the messages
+ * since. Consecutive messages from one side are merged and the history
+ * starts with the user, as the model expects.
+ */
+const historyFor = (thread: ChatThread): ChatTurn[] => {
+  const turns: ChatTurn[] = thread.summary
+    ? [
+        { role: "user", text: `[Summary of our earlier conversation]\n${thread.summary}` },
+        { role: "model", text: "Thank you. I remember, and I'm here to continue." },
+      ]
+    : [];
+  thread.messages.slice(thread.summarizedCount).forEach(({ role, text }) => {
+    const last = turns[turns.length - 1];
+    if (last?.role === role) last.text += `\n\n${text}`;
+    else if (turns.length || role === "user") turns.push({ role, text });
+  });
+  return turns;
+};
+
+/**
+ * Makes `thread` the conversation the guide continues, restoring its history.
+ */
+export const openGuideThread = (thread: ChatThread) => {
+  chatSession = getProvider().createChat(GUIDE_INSTRUCTION, historyFor(thread));
+  chatThreadId = thread.id;
+  sharedSessionKey = null;
+};
+
+const getChatSession = () => {
+  if (!chatSession) {
+    chatSession = getProvider().createChat(GUIDE_INSTRUCTION);
+    sharedSessionKey = null;
+  }
+  return chatSession;
+};
+
+/**
+ * Describes the session for the guide. The full script is only sent the
+ * first time a session comes up; after that, the position and the last few
+ * sentences heard are enough.
+ */
+const describeContext = ({ session, position }: GuideContext): string => {
+  const key = hashString(`${session.title}\n${session.script}`);
+  const lines = ["[Session context]"];
+  const duration = session.audioBuffer?.duration ?? session.live?.expectedDuration;
+  lines.push(`The user is listening to the meditation "${session.title}", at ${formatTime(position)}${duration ? ` of ${formatTime(duration)}` : ""}.`);
+
+  if (key !== sharedSessionKey) {
+    sharedSessionKey = key;
+    if (session.params) {
+      lines.push(`They asked for it feeling "${session.params.mood}", with a focus on "${session.params.focus}".`);
+    }
+    lines.push("Full script:", stripPauseMarkers(session.script).replace(/\n{2,}/g, "\n").trim());
+  }
+
+  const cues = session.cues || [];
+  const active = findActiveCue(cues, position);
+  if (active >= 0) {
+    const recent = cues.slice(Math.max(0, active - RECENT_CUES + 1), active + 1).map((cue) => cue.text);
+    lines.push(`Most recently spoken: "${recent.join(" ")}"`);
+  } else {
+    lines.push("Nothing has been spoken yet.");
+  }
+  return `${lines.join("\n")}\n\n`;
+};
+
+export interface GuideReplyOptions {
+  signal?: AbortSignal; // stops the reply; whatever was written so far is returned
+  onText?: (text: string) => void; // the reply so far, as it streams in
+}
+
+/**
+ * Streams the guide's reply to `message`. Throws a GenerationError if the
+ * guide can't be reached, so a failure never ends up in the thread as a reply.
+ */
+export const sendMessageToGuide = async (
+  message: string,
+  context?: GuideContext,
+  { signal, onText }: GuideReplyOptions = {},
+): Promise<string> => {
+  const chat = getChatSession();
+  let text = "";
+  try {
+    for await (const chunk of chat.streamMessage(context ? `${describeContext(context)}${message}` : message, signal)) {
+      text += chunk;
+      onText?.(text);
+    }
+    return text || "I am here with you. Take a deep breath.";
+  } catch (e) {
+    if (signal?.aborted) return text;
+    // The script may not have arrived; send it again next time
+    sharedSessionKey = null;
+    throw toGenerationError(e);
+  }
+};
+
+/**
+ * Transcribes a push-to-talk recording into the text of a chat message.
+ */
+export const transcribeGuideMessage = async (recording: Blob, language: string, signal?: AbortSignal): Promise<string> => {
+  const data = encode(new Uint8Array(await recording.arrayBuffer()));
+  // Codec parameters (e.g. "audio/webm;codecs=opus") aren't needed by the model
+  const mimeType = recording.type.split(";")[0] || "audio/webm";
+  return callProvider("chat", (attempt) => getProvider().transcribeSpeech({ data, mimeType }, language, attempt), signal);
+};
+
+/**
+ * Voices a guide reply the same way as a session script, so it sounds like
+ * the same guide. Markdown is read as plain text.
+ */
+export const speakGuideReply = async (text: string, settings: VoiceSettings, signal?: AbortSignal): Promise<AudioBuffer> =>
+  (await generateMeditationAudio(toPlainText(text), settings, { signal })).audioBuffer;
+
+/**
+ * Turns a chat into the mood and focus for a new session, taking the
+ * session being listened to (if any) into account.
+ */
+export const planSessionFromChat = (
+  messages: ChatMessage[],
+  context?: GuideContext,
+  signal?: AbortSignal,
+): Promise<SessionRequest> => {
+  const transcript = toTranscript(messages);
+  const listening = context ? `(The user has been listening to "${context.session.title}".)\n` : "";
+  return callProvider("script", (attempt) => getProvider().planSession(`${listening}${transcript}`, attempt), signal);
+};
+
+/**
+ * Keeps a thread within the chat token budget by summarizing its oldest
+ * unsummarized messages. Returns the thread unchanged while it still fits.
+ * If the thread is open, the guide continues from the new summary.
+ */
+export const compactGuideThread = async (thread: ChatThread, signal?: AbortSignal): Promise<ChatThread> => {
+  const recent = thread.messages.slice(thread.summarizedCount);
+  const total = recent.reduce((sum, m) => sum + estimateTokens(m.text), estimateTokens(thread.summary || ""));
+  if (total <= CHAT_TOKEN_BUDGET) return thread;
+
+  let kept = 0;
+  let keptTokens = 0;
+  while (kept < recent.length && keptTokens + estimateTokens(recent[recent.length - 1 - kept].text) <= CHAT_KEEP_TOKENS) {
+    keptTokens += estimateTokens(recent[recent.length - 1 - kept].text);
+    kept++;
+  }
+  const folded = recent.slice(0, recent.length - Math.max(kept, 1));
+  if (!folded.length) return thread;
+
+  const earlier = thread.summary ? `Summary of what came before: ${thread.summary}\n` : "";
+  const summary = await callProvider("chat", (attempt) => getProvider().summarizeChat(`${earlier}${toTranscript(folded)}`, attempt), signal);
+  const next = { ...thread, summary, summarizedCount: thread.summarizedCount + folded.length };
+  if (chatThreadId === thread.id) openGuideThread(next);
+  return next;
+};
\ No newline at end of file
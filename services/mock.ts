@@ -0,0 +1,274 @@
+import { getAudioContext } from "../utils/audio";
+import { hashString, pick } from "../utils/hash";
+import { formatPauseMarker, splitSentences } from "../utils/script";
+import { getPace } from "../utils/voices";
+import { sleep } from "../utils/retry";
+import { ScriptBudget } from "../utils/pacing";
+import { GenerationParams, MeditationSession } from "../types";
+import { MeditationProvider } from "./provider";
+
+// Offline, deterministic provider for UI work and automated tests. The same
+// inputs always produce the same script, image and audio.
+
+const MOCK_LATENCY_MS = 300;
+// Delay between streamed chunks of a few words each
+const MOCK_STREAM_DELAY_MS = 40;
+
+const TITLES = [
+  "Returning to {focus}",
+  "A Quiet Path to {focus}",
+  "Breathing Into {focus}",
+  "Still Water, Open Sky",
+  "The Gentle Harbor",
+];
+
+const BODY = [
+  "Let your breath find its own natural rhythm. There is nothing you need to change.",
+  "Bring your attention to the soles of your feet. Notice the weight of your body resting where you are.",
+  "Breathe in slowly through the nose, counting to four. Hold gently. Now release, counting to six.",
+  "Imagine a soft, warm light at the crown of your head, slowly flowing down through your shoulders.",
+  "If a thought arrives, simply notice it, like a cloud passing across a wide sky, and let it drift on.",
+  "Soften the muscles around your eyes. Let your jaw loosen. Let your hands grow heavy.",
+  "With each exhale, let a little more tension leave your body. With each inhale, welcome calm.",
+  "Picture yourself beside a still lake at dawn. The water reflects everything, and holds nothing.",
+  "Feel the gentle rise and fall of your chest. Each breath is an anchor to this present moment.",
+  "Rest here, in this space between breaths, where nothing is asked of you.",
+];
+
+const IMAGE_PROMPTS = [
+  "A misty forest at dawn with soft golden light filtering through tall pines",
+  "A calm alpine lake reflecting pastel clouds at sunrise",
+  "Gentle sand dunes under a violet twilight sky",
+  "A quiet beach with slow waves under a pale moon",
+  "A moss-covered stone garden with drifting morning fog",
+];
+
+const PALETTES: [string, string, string][] = [
+  ["#1e1b4b", "#6366f1", "#f0abfc"],
+  ["#0f172a", "#0ea5e9", "#a7f3d0"],
+  ["#1c1917", "#b45309", "#fde68a"],
+  ["#052e16", "#10b981", "#d9f99d"],
+  ["#312e81", "#a855f7", "#fbcfe8"],
+];
+
+const CHAT_REPLIES = [
+  "Let's pause together. Breathe in for four, and out for six. What do you notice now?",
+  "That's a very human feeling. Try placing a hand on your chest and feeling it rise and fall.",
+  "Be gentle with yourself. Even one mindful breath is a meaningful practice.",
+  "When the mind wanders, that's not failure. Noticing it is the practice itself.",
+  "Try to soften your shoulders and unclench your jaw. Rest there for a moment.",
+  "Here's a simple practice:\n\n1. **Breathe in** through the nose for four.\n2. *Hold* gently for a moment.\n3. Breathe out slowly for six.\n\nRepeat a few times and notice how you feel.",
+];
+
+// "Transcripts" for recorded voice messages
+const SPOKEN_MESSAGES = [
+  "I feel a little restless and would like to slow down.",
+  "What did that last part mean?",
+  "I'm finding it hard to stay focused on my breath.",
+];
+
+// Openings a rewritten passage starts with, so the change can be heard
+const REWRITE_OPENERS = ["Gently now,", "Softly,", "Without any hurry,", "In your own time,"];
+
+// Rough topic spotting for planSession
+const FOCUS_KEYWORDS: [RegExp, string][] = [
+  [/sleep|insomnia|tired|night/i, "Restful sleep"],
+  [/anx|worr|panic|nervous/i, "Easing anxiety"],
+  [/work|deadline|stress|busy/i, "Letting go of stress"],
+  [/focus|concentrat|study/i, "Clear focus"],
+  [/sad|grief|lonely|hurt/i, "Self-compassion"],
+];
+
+// Day themes for planCourse, from foundations to daily life
+const COURSE_THEMES: [string, string][] = [
+  ["Arriving", "Settling in and finding the breath as an anchor"],
+  ["The Body at Rest", "A slow scan that lets tension go, part by part"],
+  ["Watching Thoughts", "Noticing thoughts come and go without following them"],
+  ["Softening", "Meeting difficult feelings with a softer, kinder attention"],
+  ["Deepening", "Longer silences, resting in stillness between breaths"],
+  ["Kindness", "Turning warmth toward yourself and others"],
+  ["Carrying It With You", "Bringing the practice into the rest of the day"],
+];
+
+// What the user said in a "User: ... / Guide: ..." transcript
+const userLines = (transcript: string): string[] =>
+  transcript
+    .split("\n")
+    .filter((line) => line.startsWith("User:"))
+    .map((line) => line.slice(5).trim());
+
+/**
+ * Renders a soft portrait gradient as an SVG data URL.
+ */
+const gradientImage = (prompt: string): string => {
+  const [deep, mid, light] = pick(PALETTES, prompt);
+  const seed = hashString(prompt);
+  const orbs = [0, 1, 2].map((i) => {
+    const cx = 150 + ((seed >> (i * 5)) % 500);
+    const cy = 200 + ((seed >> (i * 7)) % 700);
+    return `<circle cx="${cx}" cy="${cy}" r="${180 + i * 60}" fill="${i % 2 ? light : mid}" opacity="0.35" filter="url(#blur)"/>`;
+  }).join("");
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="800" height="1200" viewBox="0 0 800 1200">`
+    + `<defs><linearGradient id="bg" x1="0" y1="0" x2="0" y2="1"><stop offset="0" stop-color="${mid}"/><stop offset="1" stop-color="${deep}"/></linearGradient>`
+    + `<filter id="blur"><feGaussianBlur stdDeviation="80"/></filter></defs>`
+    + `<rect width="800" height="1200" fill="url(#bg)"/>${orbs}</svg>`;
+  return `data:image/svg+xml;base64,${btoa(svg)}`;
+};
+
+/**
+ * Placeholder "speech": one hummed syllable per word at the chosen pace, with
+ * longer gaps after punctuation, so timing, ducking and cues behave realistically.
+ */
+const hummedSpeech = (text: string, wordsPerMinute: number, voice: string): AudioBuffer => {
+  const ctx = getAudioContext();
+  const sampleRate = ctx.sampleRate;
+  const words = text.split(/\s+/).filter(Boolean);
+  const wordSeconds = 60 / wordsPerMinute;
+  const basePitch = 140 + (hashString(voice) % 80);
+
+  const slots = words.map((word) => {
+    const gap = /[.!?…。！？]$/.test(word) ? 0.4 : /[,;:、，]$/.test(word) ? 0.15 : 0;
+    return { word, seconds: wordSeconds + gap };
+  });
+  const total = slots.reduce((sum, s) => sum + s.seconds, 0.3);
+  const buffer = ctx.createBuffer(1, Math.ceil(total * sampleRate), sampleRate);
+  const data = buffer.getChannelData(0);
+
+  let cursor = Math.floor(0.15 * sampleRate);
+  slots.forEach(({ word, seconds }) => {
+    const voiced = Math.floor(wordSeconds * 0.7 * sampleRate);
+    const pitch = basePitch * (0.9 + (hashString(word) % 20) / 100);
+    for (let i = 0; i < voiced && cursor + i < data.length; i++) {
+      const t = i / sampleRate;
+      const env = Math.min(1, t / 0.02, (voiced - i) / sampleRate / 0.04);
+      let sample = 0;
+      for (let harmonic = 1; harmonic <= 5; harmonic++) {
+        sample += Math.sin(2 * Math.PI * pitch * harmonic * t) / harmonic;
+      }
+      data[cursor + i] = sample * env * 0.18;
+    }
+    cursor += Math.floor(seconds * sampleRate);
+  });
+  return buffer;
+};
+
+const writeScript = (params: GenerationParams, budget: ScriptBudget): MeditationSession => {
+  const { course } = params;
+  const seed = `${params.mood}|${params.focus}${course ? `|${course.day}` : ""}`;
+  const focus = params.focus.trim() || "Calm";
+  const offset = hashString(seed) % BODY.length;
+
+  const welcome = course
+    ? `Welcome to day ${course.day + 1} of ${course.title}. Today: ${course.days[course.day].theme.toLowerCase()}.`
+    : "Welcome.";
+  const intro = `${welcome} You mentioned feeling ${params.mood.trim() || "unsettled"}. For the next ${params.duration} minutes, let's turn gently toward ${focus.toLowerCase()}.`;
+  const closing = "Slowly begin to return. Wiggle your fingers and toes. When you are ready, open your eyes.";
+
+  // Cycle through the body lines until the word budget is spent
+  const body: string[] = [];
+  let words = intro.split(" ").length + closing.split(" ").length;
+  while (words < budget.words) {
+    const line = BODY[(offset + body.length) % BODY.length];
+    body.push(line);
+    words += line.split(" ").length;
+  }
+
+  const pause = formatPauseMarker(Math.max(3, budget.pauseSeconds / Math.max(1, body.length + 1)));
+  const script = [intro, pause, ...body.flatMap((line) => [line, pause]), closing].join("\n");
+
+  return {
+    title: course?.days[course.day].title ?? pick(TITLES, seed).replace("{focus}", focus.charAt(0).toUpperCase() + focus.slice(1)),
+    script,
+    imagePrompt: params.style ? `${pick(IMAGE_PROMPTS, seed)}, ${params.style}` : pick(IMAGE_PROMPTS, seed),
+  };
+};
+
+export const mockProvider: MeditationProvider = {
+  name: "mock",
+  models: { script: "mock", image: "mock", speech: "mock" },
+
+  generateScript: async (params, budget, signal) => {
+    await sleep(MOCK_LATENCY_MS, signal);
+    return writeScript(params, budget);
+  },
+
+  async *streamScript(params, budget, signal) {
+    const { title, script, imagePrompt } = writeScript(params, budget);
+    await sleep(MOCK_LATENCY_MS, signal);
+    yield `Title: ${title}\nImage: ${imagePrompt}\n\n`;
+    // A few words at a time, the way a model streams
+    const words = script.split(/(?<=\s)/);
+    for (let i = 0; i < words.length; i += 4) {
+      await sleep(MOCK_STREAM_DELAY_MS, signal);
+      yield words.slice(i, i + 4).join("");
+    }
+  },
+
+  generateImage: async (prompt, signal) => {
+    await sleep(MOCK_LATENCY_MS, signal);
+    return gradientImage(prompt);
+  },
+
+  synthesizeSpeech: async (text, settings, signal) => {
+    await sleep(MOCK_LATENCY_MS, signal);
+    return hummedSpeech(text, getPace(settings.pace).wordsPerMinute, settings.voice);
+  },
+
+  createChat: (_instruction, history = []) => {
+    let turn = history.length;
+    return {
+      async *streamMessage(message, signal) {
+        await sleep(MOCK_LATENCY_MS, signal);
+        const reply = pick(CHAT_REPLIES, `${turn++}|${message}`);
+        // Show that session context came through
+        const session = message.match(/meditation "([^"]+)"/);
+        const words = (session ? `Thinking of "${session[1]}": ${reply}` : reply).split(/(?<=\s)/);
+        for (const word of words) {
+          await sleep(MOCK_STREAM_DELAY_MS, signal);
+          yield word;
+        }
+      },
+    };
+  },
+
+  transcribeSpeech: async (audio, _language, signal) => {
+    await sleep(MOCK_LATENCY_MS, signal);
+    return pick(SPOKEN_MESSAGES, audio.data.slice(-64));
+  },
+
+  summarizeChat: async (transcript, signal) => {
+    await sleep(MOCK_LATENCY_MS, signal);
+    const said = userLines(transcript);
+    return `Earlier, the user shared: ${said.join(" / ") || "very little"}. The guide offered breathing and grounding practices.`;
+  },
+
+  rewritePassage: async (passage, instruction, _script, _settings, signal) => {
+    await sleep(MOCK_LATENCY_MS, signal);
+    const opener = pick(REWRITE_OPENERS, `${instruction}|${passage}`);
+    const body = /short|brief|concise/i.test(instruction) ? splitSentences(passage)[0] : passage;
+    return `${opener} ${body.charAt(0).toLowerCase()}${body.slice(1)}`;
+  },
+
+  planSession: async (transcript, signal) => {
+    await sleep(MOCK_LATENCY_MS, signal);
+    const said = userLines(transcript);
+    const last = said[said.length - 1] || "Restless";
+    const focus = FOCUS_KEYWORDS.find(([pattern]) => pattern.test(said.join(" ")))?.[1] ?? "Calm";
+    return { mood: last.length > 80 ? `${last.slice(0, 77)}...` : last, focus };
+  },
+
+  planCourse: async (params, days, signal) => {
+    await sleep(MOCK_LATENCY_MS, signal);
+    const focus = params.focus.trim() || "Calm";
+    return {
+      title: `${days} Days of ${focus.charAt(0).toUpperCase() + focus.slice(1)}`,
+      description: `A daily practice toward ${focus.toLowerCase()}, one small step at a time.`,
+      // Longer courses go through the themes again, a little deeper each time
+      days: Array.from({ length: days }, (_, i) => {
+        const [title, theme] = COURSE_THEMES[i % COURSE_THEMES.length];
+        const pass = Math.floor(i / COURSE_THEMES.length);
+        return { title: pass ? `${title} ${["", "II", "III", "IV", "V"][pass] ?? pass + 1}` : title, theme };
+      }),
+    };
+  },
+};
\ No newline at end of file
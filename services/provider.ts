@@ -0,0 +1,74 @@
+import { CoursePlan, GenerationParams, MeditationSession, SessionRequest, VoiceSettings } from "../types";
+import { ScriptBudget } from "../utils/pacing";
+
+export type ProviderName = "gemini" | "mock";
+
+export interface GuideChat {
+  /** Sends a message and streams the reply as it is written. */
+  streamMessage: (message: string, signal?: AbortSignal) => AsyncIterable<string>;
+}
+
+// A turn of earlier conversation to start a chat from
+export interface ChatTurn {
+  role: "user" | "model";
+  text: string;
+}
+
+/**
+ * Everything the app needs from a generative backend. Implementations throw
+ * on failure, a GenerationError where they can tell what went wrong, and
+ * should stop work when `signal` aborts. Timeouts and retries live in
+ * services/meditation.ts.
+ */
+export interface MeditationProvider {
+  name: ProviderName;
+  /** Model ids, so cached output is only reused from the model that made it. */
+  models: Record<"script" | "image" | "speech", string>;
+  /** Writes the title, script (with [pause Ns] markers) and image prompt. */
+  generateScript: (params: GenerationParams, budget: ScriptBudget, signal?: AbortSignal) => Promise<MeditationSession>;
+  /**
+   * Streams the same content as plain text while it is written: a "Title:"
+   * line and an "Image:" line, then the script, one paragraph per line.
+   */
+  streamScript: (params: GenerationParams, budget: ScriptBudget, signal?: AbortSignal) => AsyncIterable<string>;
+  /** Returns the background image as a URL, usually a data URL. */
+  generateImage: (prompt: string, signal?: AbortSignal) => Promise<string>;
+  /** Speaks one segment of a script. */
+  synthesizeSpeech: (text: string, settings: VoiceSettings, signal?: AbortSignal) => Promise<AudioBuffer>;
+  /** Starts a guide conversation, optionally continuing from earlier turns. */
+  createChat: (systemInstruction: string, history?: ChatTurn[]) => GuideChat;
+  /** Writes down what was said in a voice recording (base64 `data`), in the given language. */
+  transcribeSpeech: (audio: { data: string; mimeType: string }, language: string, signal?: AbortSignal) => Promise<string>;
+  /** Condenses the older part of a conversation so it can stand in for the full turns. */
+  summarizeChat: (transcript: string, signal?: AbortSignal) => Promise<string>;
+  /** Condenses a conversation transcript into the mood and focus for a new session. */
+  planSession: (transcript: string, signal?: AbortSignal) => Promise<SessionRequest>;
+  /** Plans a course of `days` sessions toward the params' focus, each building on the last. */
+  planCourse: (params: GenerationParams, days: number, signal?: AbortSignal) => Promise<CoursePlan>;
+  /**
+   * Rewrites one paragraph of a script as `instruction` asks ("make this
+   * gentler"), in the same language, keeping its markers. `script` is the
+   * whole script, for context.
+   */
+  rewritePassage: (passage: string, instruction: string, script: string, settings: VoiceSettings, signal?: AbortSignal) => Promise<string>;
+}
+
+const isProviderName = (value: unknown): value is ProviderName => value === "gemini" || value === "mock";
+
+/**
+ * Picks the backend: a `?provider=mock|gemini` URL flag wins, then the
+ * ZENGEN_PROVIDER env setting, then Gemini. Without an API key the app
+ * falls back to the offline mock so it still runs.
+ */
+export const resolveProviderName = (): ProviderName => {
+  const fromUrl = typeof window !== "undefined"
+    ? new URLSearchParams(window.location.search).get("provider")
+    : null;
+  if (isProviderName(fromUrl)) return fromUrl;
+  if (isProviderName(process.env.ZENGEN_PROVIDER)) return process.env.ZENGEN_PROVIDER;
+  if (!process.env.API_KEY) {
+    console.warn("No GEMINI_API_KEY configured; using the offline mock provider.");
+    return "mock";
+  }
+  return "gemini";
+};
\ No newline at end of file
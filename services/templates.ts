@@ -0,0 +1,138 @@
+import { idbDelete, idbGetAll, idbPut, STORES } from "../utils/db";
+import { decode, encode } from "../utils/audio";
+import { AMBIENT_LAYERS, DEFAULT_AMBIENT_LEVELS } from "../utils/ambient";
+import { MIN_DURATION_MINUTES, MAX_DURATION_MINUTES } from "../utils/pacing";
+import { DEFAULT_VOICE_SETTINGS, LANGUAGES, PACES, VOICES } from "../utils/voices";
+import { AmbientLevels, GenerationParams, SessionTemplate } from "../types";
+
+const curated = (
+  id: string,
+  name: string,
+  description: string,
+  params: Omit<GenerationParams, "language">,
+  ambient: Partial<AmbientLevels>,
+): SessionTemplate => ({
+  id: `curated-${id}`,
+  name,
+  description,
+  params: { language: "en", ...params },
+  ambient: { ...DEFAULT_AMBIENT_LEVELS, ocean: 0, drone: 0, ...ambient },
+  curated: true,
+  createdAt: 0,
+});
+
+export const CURATED_TEMPLATES: SessionTemplate[] = [
+  curated("wind-down", "Evening Wind-Down", "Let the day go before sleep.",
+    { mood: "Tired but wired", focus: "Falling asleep", duration: 20, voice: "Achernar", pace: "very-slow", style: "Warm, drowsy, with long silences and imagery of dusk" },
+    { rain: 0.4, brown: 0.2 }),
+  curated("reset", "Midday Reset", "A short pause between meetings.",
+    { mood: "Scattered and rushed", focus: "Coming back to the present", duration: 5, voice: "Iapetus", pace: "moderate", style: "Crisp and practical, few metaphors" },
+    { pink: 0.2 }),
+  curated("anxiety", "Grounding for Anxiety", "Steady breath and a sense of solid ground.",
+    { mood: "Anxious and on edge", focus: "Feeling safe and grounded", duration: 10, voice: "Sulafat", pace: "slow", style: "Reassuring, body-focused, imagery of roots and stone" },
+    { drone: 0.3, brown: 0.15 }),
+  curated("focus", "Deep Work Warm-Up", "Clear the mind before focused work.",
+    { mood: "Distracted", focus: "Clear, sustained focus", duration: 10, voice: "Schedar", pace: "moderate", style: "Minimal and precise, like a Zen teacher" },
+    { pink: 0.25 }),
+  curated("kindness", "Loving-Kindness", "Warmth toward yourself and others.",
+    { mood: "Hard on myself", focus: "Self-compassion", duration: 15, voice: "Vindemiatrix", pace: "slow", style: "Tender and encouraging, soft golden light" },
+    { bowl: 0.3, drone: 0.15 }),
+  curated("ocean", "Ocean Breath", "Breathe with the rhythm of the waves.",
+    { mood: "Restless", focus: "Calm, slow breathing", duration: 10, voice: "Aoede", pace: "slow", style: "Spacious, seaside imagery, breath timed to waves" },
+    { ocean: 0.5 }),
+];
+
+/**
+ * The user's saved templates, newest first.
+ */
+export const listTemplates = async (): Promise<SessionTemplate[]> => {
+  const templates = await idbGetAll<SessionTemplate>(STORES.templates);
+  return templates.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const createTemplate = (name: string, params: GenerationParams, ambient?: AmbientLevels): SessionTemplate => {
+  // A course day's context belongs to that course, not to a template
+  const { course, ...rest } = params;
+  return { id: crypto.randomUUID(), name: name.trim(), params: rest, ambient, createdAt: Date.now() };
+};
+
+export const saveTemplate = async (template: SessionTemplate): Promise<SessionTemplate> => {
+  // A curated template saved again becomes the user's own copy
+  const saved = { ...template, id: template.curated ? crypto.randomUUID() : template.id, curated: undefined, createdAt: Date.now() };
+  await idbPut(STORES.templates, saved);
+  return saved;
+};
+
+export const deleteTemplate = (id: string): Promise<void> => idbDelete(STORES.templates, id);
+
+// Share links carry the template in this query parameter
+export const TEMPLATE_PARAM = "template";
+
+// Longest text accepted from a link, per field
+const MAX_NAME = 80;
+const MAX_TEXT = 300;
+
+const toBase64Url = (text: string) =>
+  encode(new TextEncoder().encode(text)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const fromBase64Url = (value: string) =>
+  new TextDecoder().decode(decode(value.replace(/-/g, "+").replace(/_/g, "/")));
+
+/**
+ * A link that opens the app with this template loaded.
+ */
+export const templateLink = (template: SessionTemplate): string => {
+  const { name, description, params, ambient } = template;
+  const url = new URL(window.location.href);
+  url.search = "";
+  url.hash = "";
+  url.searchParams.set(TEMPLATE_PARAM, toBase64Url(JSON.stringify({ name, description, params, ambient })));
+  return url.toString();
+};
+
+const text = (value: unknown, max: number) => (typeof value === "string" ? value.trim().slice(0, max) : "");
+
+/**
+ * Reads a template from a share link's parameter. Anything unknown or out of
+ * range is replaced with a default, so a hand-edited link can't break the
+ * form. Returns null when the value isn't a template at all.
+ */
+export const parseTemplateParam = (value: string): SessionTemplate | null => {
+  let raw;
+  try {
+    raw = JSON.parse(fromBase64Url(value));
+  } catch {
+    return null;
+  }
+  if (!raw || typeof raw !== "object" || !raw.params || typeof raw.params !== "object") return null;
+
+  const p = raw.params;
+  const duration = Math.round(Number(p.duration));
+  const params: GenerationParams = {
+    mood: text(p.mood, MAX_TEXT),
+    focus: text(p.focus, MAX_TEXT),
+    duration: duration ? Math.min(MAX_DURATION_MINUTES, Math.max(MIN_DURATION_MINUTES, duration)) : 10,
+    voice: VOICES.some((v) => v.name === p.voice) ? p.voice : DEFAULT_VOICE_SETTINGS.voice,
+    pace: PACES.find((pace) => pace.id === p.pace)?.id ?? DEFAULT_VOICE_SETTINGS.pace,
+    language: LANGUAGES.some((l) => l.code === p.language) ? p.language : DEFAULT_VOICE_SETTINGS.language,
+    style: text(p.style, MAX_TEXT) || undefined,
+  };
+
+  let ambient: AmbientLevels | undefined;
+  if (raw.ambient && typeof raw.ambient === "object") {
+    ambient = { ...DEFAULT_AMBIENT_LEVELS };
+    AMBIENT_LAYERS.forEach(({ id }) => {
+      const level = Number(raw.ambient[id]);
+      if (Number.isFinite(level)) ambient![id] = Math.min(1, Math.max(0, level));
+    });
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    name: text(raw.name, MAX_NAME) || "Shared template",
+    description: text(raw.description, MAX_TEXT) || undefined,
+    params,
+    ambient,
+    createdAt: Date.now(),
+  };
+};
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { generateMeditationAudio } from "./meditation";
+import { getAudioContext } from "../utils/audio";
+import { renderBell } from "../utils/bells";
+import { formatTime } from "../utils/format";
+import { AudioClip, MeditationSession, ScriptCue, SynthesizedAudio, TimerSettings, VoiceSettings } from "../types";
+
+export const DEFAULT_TIMER_SETTINGS: TimerSettings = { minutes: 10, intervalMinutes: 0, warmupSeconds: 10, spokenIntro: false };
+
+export const MAX_TIMER_MINUTES = 120;
+
+const INTRO_SCRIPT = `Welcome. Settle into a posture that is upright and at ease, and let your eyes close.
+There is nothing to do now but sit. When the bell rings, begin.`;
+
+const OUTRO_SCRIPT = `The sit is complete. Take a slow breath, and when you're ready, open your eyes.`;
+
+// Silence after the intro; the outro comes in over the end bell's last few seconds of ring
+const INTRO_GAP_SECONDS = 1.5;
+const OUTRO_OVERLAP_SECONDS = 5;
+
+/**
+ * Lays out an unguided sit: a warm-up countdown, a start bell, optional
+ * interval bells, an end bell, and optionally a short spoken intro and outro.
+ * Bells are synthesized locally; only the intro and outro need the provider.
+ *
+ * The result plays as clips on the session timeline, so the silence between
+ * bells costs nothing and every bell is scheduled ahead on the audio clock.
+ */
+export const createTimerSession = async (
+  settings: TimerSettings,
+  voice: VoiceSettings,
+  signal?: AbortSignal,
+): Promise<MeditationSession> => {
+  const ctx = getAudioContext();
+  let intro: SynthesizedAudio | undefined;
+  let outro: SynthesizedAudio | undefined;
+  if (settings.spokenIntro) {
+    [intro, outro] = await Promise.all([
+      generateMeditationAudio(INTRO_SCRIPT, voice, { signal }),
+      generateMeditationAudio(OUTRO_SCRIPT, voice, { signal }),
+    ]);
+  }
+
+  const clips: AudioClip[] = [];
+  const cues: ScriptCue[] = [];
+  let paragraph = 0;
+
+  // Adds voiced text at `start`, keeping its cues as their own paragraphs
+  const addSpeech = (audio: SynthesizedAudio, start: number) => {
+    clips.push({ buffer: audio.audioBuffer, start });
+    const first = paragraph;
+    audio.cues.forEach((cue) => {
+      cues.push({ ...cue, paragraph: first + cue.paragraph, start: cue.start + start, end: cue.end + start });
+      paragraph = Math.max(paragraph, first + cue.paragraph + 1);
+    });
+  };
+
+  const addBell = (buffer: AudioBuffer, start: number, text: string) => {
+    clips.push({ buffer, start });
+    cues.push({ text, paragraph: paragraph++, start, end: start + buffer.duration });
+  };
+
+  let time = 0;
+  if (intro) {
+    addSpeech(intro, 0);
+    time = intro.audioBuffer.duration + INTRO_GAP_SECONDS;
+  }
+
+  const warmupStart = time;
+  if (settings.warmupSeconds > 0) {
+    cues.push({ text: "Settle in.", paragraph: paragraph++, start: time, end: time + settings.warmupSeconds });
+    time += settings.warmupSeconds;
+  }
+
+  const sitStart = time;
+  const sitSeconds = settings.minutes * 60;
+  const sitEnd = sitStart + sitSeconds;
+  addBell(renderBell(ctx, "start"), sitStart, `Begin. ${formatTime(sitSeconds)} of stillness.`);
+
+  if (settings.intervalMinutes > 0) {
+    // One buffer serves every interval bell
+    const bell = renderBell(ctx, "interval");
+    const step = settings.intervalMinutes * 60;
+    for (let at = step; at < sitSeconds; at += step) {
+      addBell(bell, sitStart + at, `${formatTime(at)} in. ${formatTime(sitSeconds - at)} remaining.`);
+    }
+  }
+
+  const endBell = renderBell(ctx, "end");
+  addBell(endBell, sitEnd, "The end of the sit.");
+  if (outro) addSpeech(outro, sitEnd + endBell.duration - OUTRO_OVERLAP_SECONDS);
+
+  const length = Math.max(...clips.map(({ buffer, start }) => start + buffer.duration));
+
+  // Paragraph by paragraph, for the script panel and the guide
+  const lines: string[] = [];
+  cues.forEach((cue) => {
+    lines[cue.paragraph] = lines[cue.paragraph] ? `${lines[cue.paragraph]} ${cue.text}` : cue.text;
+  });
+
+  return {
+    title: `Silent sit · ${settings.minutes} min`,
+    script: lines.join("\n"),
+    imagePrompt: "",
+    cues,
+    live: { clips, available: length, expectedDuration: length, writing: false, done: true },
+    timer: { settings, warmupStart, sitStart, sitEnd },
+  };
+};
\ No newline at end of file
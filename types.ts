@@ -1,25 +1,226 @@
 export interface MeditationSession {
+  id?: string; // Set once the session has been saved to the library
   title: string;
   script: string;
   imagePrompt: string;
   imageUrl?: string;
   audioBuffer?: AudioBuffer;
+  params?: GenerationParams;
+  cues?: ScriptCue[]; // Exact timings when known; otherwise estimated from the audio
+  live?: LiveAudio; // While the session is still being generated, or for a timer's bells
+  timer?: TimerPlan; // Set for an unguided timer session
+  edited?: boolean; // The script was edited by hand, so its pauses are voiced exactly as written
+  targetMissed?: boolean; // The voiced length fell outside the tolerance of the requested duration
 }
 
+// A synthesized piece of speech and where it sits on the session timeline
+export interface AudioClip {
+  buffer: AudioBuffer;
+  start: number; // seconds
+}
+
+// Audio laid out as separate clips: a session that is still streaming in,
+// or the bells of a timer. Clips arrive in order; everything up to
+// `available` is laid out and can be played.
+export interface LiveAudio {
+  clips: AudioClip[];
+  available: number; // seconds
+  expectedDuration: number; // the target length, until the real one is known
+  writing: boolean; // the script itself is still being written
+  done: boolean; // every segment is synthesized; `available` is the full length
+}
+
+// One sentence of the script and where it's spoken in the audio
+export interface ScriptCue {
+  text: string;
+  paragraph: number;
+  start: number; // seconds
+  end: number;
+}
+
+export interface SynthesizedAudio {
+  audioBuffer: AudioBuffer;
+  cues: ScriptCue[];
+  script: string; // As voiced, with pause markers adjusted to fit the target length
+  speechSeconds: number; // Spoken portion only, excluding every pause
+  targetMissed: boolean; // Fitting the pauses couldn't bring it within tolerance of the target
+}
+
+export type GenerationStep = 'script' | 'audio' | 'image';
+
+export interface StepState {
+  status: 'pending' | 'running' | 'done' | 'failed';
+  error?: string; // user-facing, when failed
+  retryable?: boolean; // trying again could help
+}
+
+export type GenerationProgress = Record<GenerationStep, StepState>;
+
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   timestamp: Date;
 }
 
+// A conversation with the guide. Once a thread grows long, its oldest
+// messages are folded into `summary` for the model; the UI still shows them all.
+export interface ChatThread {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  summary?: string;
+  summarizedCount: number; // leading messages covered by `summary`
+  createdAt: number;
+  updatedAt: number;
+}
+
+// An unguided sit, timed with bells
+export interface TimerSettings {
+  minutes: number; // the sit itself, from the start bell to the end bell
+  intervalMinutes: number; // 0 for no interval bells
+  warmupSeconds: number; // countdown before the start bell
+  spokenIntro: boolean; // a short spoken intro and outro around the sit
+}
+
+// Where the parts of a timer session fall on its timeline, in seconds
+export interface TimerPlan {
+  settings: TimerSettings;
+  warmupStart: number;
+  sitStart: number; // the start bell
+  sitEnd: number; // the end bell
+}
+
+// Winding down at bedtime: the volume fades out and playback stops on its own
+export interface SleepSettings {
+  enabled: boolean;
+  timerMinutes: number; // from pressing play to the stop; 0 stops when the session ends
+  fadeMinutes: number; // the volume fades to silence over this long before the stop
+}
+
 export enum AppView {
   HOME = 'HOME',
   GENERATING = 'GENERATING',
-  PLAYER = 'PLAYER'
+  PLAYER = 'PLAYER',
+  LIBRARY = 'LIBRARY',
+  BREATHING = 'BREATHING',
+  TIMER = 'TIMER',
+  COURSES = 'COURSES',
+  PROFILE = 'PROFILE',
+  GALLERY = 'GALLERY',
+  EDITOR = 'EDITOR'
 }
 
-export interface GenerationParams {
+export type AmbientLayerId = 'rain' | 'ocean' | 'brown' | 'pink' | 'drone' | 'bowl';
+
+// Per-layer soundscape level, 0 (off) to 1
+export type AmbientLevels = Record<AmbientLayerId, number>;
+
+export type SpeakingPace = 'very-slow' | 'slow' | 'moderate';
+
+// How the guide sounds; remembered as the user's defaults
+export interface VoiceSettings {
+  voice: string; // Prebuilt TTS voice name
+  pace: SpeakingPace;
+  language: string; // ISO 639-1
+}
+
+export interface GenerationParams extends VoiceSettings {
   mood: string;
-  duration: string; // "Short" | "Medium" | "Long"
+  duration: number; // minutes
+  focus: string;
+  style?: string; // Optional direction for the script's tone and the image, e.g. "Zen garden, sparse words"
+  course?: CourseContext; // Set when the session is a day of a course
+}
+
+// A reusable starting point for sessions: curated, or saved by the user
+export interface SessionTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  params: GenerationParams;
+  ambient?: AmbientLevels; // the soundscape to play it with
+  curated?: boolean;
+  createdAt: number;
+}
+
+// What a new session should address, e.g. as distilled from a chat
+export type SessionRequest = Pick<GenerationParams, 'mood' | 'focus'>;
+
+// One day of a course. The plan is made up front; the session is generated
+// the first time the day is opened.
+export interface CourseDay {
+  title: string;
+  theme: string; // what the day practises, building on the days before
+  sessionId?: string; // the generated session, once saved to the library
+  completedAt?: number;
+}
+
+export type CourseDayPlan = Pick<CourseDay, 'title' | 'theme'>;
+
+// A course as planned by the model
+export interface CoursePlan {
+  title: string;
+  description: string;
+  days: CourseDayPlan[];
+}
+
+// A multi-day program such as "7 days of sleep", as stored in IndexedDB
+export interface Course extends CoursePlan {
+  id: string;
+  params: GenerationParams; // mood, focus, voice and length shared by every day
+  days: CourseDay[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// What a course day's script is told about the course it belongs to
+export interface CourseContext {
+  courseId: string;
+  title: string;
+  description: string;
+  day: number; // from 0
+  days: CourseDayPlan[]; // the whole plan, so the day can build on earlier ones
+}
+
+// A session listened to the end, and how the user felt around it. The
+// insights dashboard is computed from these, as stored in IndexedDB.
+export interface PracticeRecord {
+  id: string;
+  sessionId?: string;
+  title: string;
+  kind: 'guided' | 'timer';
+  mood: string; // as the user described it when generating
   focus: string;
+  minutes: number; // actually listened, not skipped
+  moodBefore?: number; // 1 (low) to 5 (bright)
+  moodAfter?: number;
+  completedAt: number;
+}
+
+// Library metadata as stored in IndexedDB. Audio lives in its own store so
+// listing the library doesn't pull every session's PCM into memory.
+export interface SavedSession {
+  id: string;
+  title: string;
+  script: string;
+  imagePrompt: string;
+  imageUrl?: string;
+  params?: GenerationParams;
+  audioDuration?: number; // seconds
+  cues?: ScriptCue[];
+  edited?: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A chat thread as stored in IndexedDB, with timestamps as epoch milliseconds
+export interface SavedChatThread extends Omit<ChatThread, 'messages'> {
+  messages: (Omit<ChatMessage, 'timestamp'> & { timestamp: number })[];
+}
+
+export interface SavedAudio {
+  id: string; // Same id as the owning SavedSession
+  pcm: ArrayBuffer; // 16-bit LE interleaved PCM
+  sampleRate: number;
+  numChannels: number;
 }
\ No newline at end of file
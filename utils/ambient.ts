@@ -0,0 +1,324 @@
+import { AmbientLayerId, AmbientLevels } from '../types';
+
+// Procedural ambient soundscapes. Everything is synthesized in Web Audio so
+// no network assets are needed; buffer-based layers are built to loop seamlessly.
+
+export const AMBIENT_LAYERS: { id: AmbientLayerId; label: string }[] = [
+  { id: 'rain', label: 'Rain' },
+  { id: 'ocean', label: 'Ocean Waves' },
+  { id: 'brown', label: 'Brown Noise' },
+  { id: 'pink', label: 'Pink Noise' },
+  { id: 'drone', label: 'Drone' },
+  { id: 'bowl', label: 'Singing Bowl' },
+];
+
+export const DEFAULT_AMBIENT_LEVELS: AmbientLevels = {
+  rain: 0,
+  ocean: 0.3,
+  brown: 0,
+  pink: 0,
+  drone: 0.2,
+  bowl: 0,
+};
+
+const NOISE_SECONDS = 8;
+const BOWL_SECONDS = 16;
+const DUCK_LEVEL = 0.4; // Ambient gain while the guide is speaking
+const LAYER_HEADROOM = 0.5; // Keeps the bed comfortably under the voice
+
+type NoiseColor = 'white' | 'pink' | 'brown';
+
+// Buffers are expensive to build, so keep one of each per context
+const bufferCache = new WeakMap<BaseAudioContext, Map<string, AudioBuffer>>();
+
+const cached = (ctx: BaseAudioContext, key: string, build: () => AudioBuffer) => {
+  let cache = bufferCache.get(ctx);
+  if (!cache) {
+    cache = new Map();
+    bufferCache.set(ctx, cache);
+  }
+  let buffer = cache.get(key);
+  if (!buffer) {
+    buffer = build();
+    cache.set(key, buffer);
+  }
+  return buffer;
+};
+
+const noiseBuffer = (ctx: BaseAudioContext, color: NoiseColor) => cached(ctx, `noise:${color}`, () => {
+  const length = Math.floor(NOISE_SECONDS * ctx.sampleRate);
+  const fade = Math.floor(0.5 * ctx.sampleRate);
+  // Render extra samples so the tail can be crossfaded into the head
+  const raw = new Float32Array(length + fade);
+  let b0 = 0, b1 = 0, b2 = 0, last = 0;
+
+  for (let i = 0; i < raw.length; i++) {
+    const white = Math.random() * 2 - 1;
+    if (color === 'pink') {
+      // Paul Kellet's economy pink filter
+      b0 = 0.99765 * b0 + white * 0.0990460;
+      b1 = 0.96300 * b1 + white * 0.2965164;
+      b2 = 0.57000 * b2 + white * 1.0526913;
+      raw[i] = (b0 + b1 + b2 + white * 0.1848) * 0.11;
+    } else if (color === 'brown') {
+      last = (last + 0.02 * white) / 1.02;
+      raw[i] = last * 3.5;
+    } else {
+      raw[i] = white * 0.5;
+    }
+  }
+
+  const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  data.set(raw.subarray(0, length));
+  for (let i = 0; i < fade; i++) {
+    // Equal-power crossfade: the loop point now flows straight into raw[length]
+    const t = i / fade;
+    data[i] = raw[i] * Math.sqrt(t) + raw[length + i] * Math.sqrt(1 - t);
+  }
+  return buffer;
+});
+
+const bowlBuffer = (ctx: BaseAudioContext) => cached(ctx, 'bowl', () => {
+  const sampleRate = ctx.sampleRate;
+  const length = Math.floor(BOWL_SECONDS * sampleRate);
+  const buffer = ctx.createBuffer(1, length, sampleRate);
+  const data = buffer.getChannelData(0);
+  // Inharmonic partials of a struck bowl, each with a slightly detuned twin for beating
+  const partials = [
+    { freq: 196, amp: 0.5, decay: 6 },
+    { freq: 196 * 2.76, amp: 0.25, decay: 4 },
+    { freq: 196 * 5.4, amp: 0.12, decay: 2.5 },
+    { freq: 196 * 8.93, amp: 0.05, decay: 1.5 },
+  ];
+  const strike = Math.floor(0.5 * sampleRate);
+  const tailFade = 2 * sampleRate;
+
+  for (let i = strike; i < length; i++) {
+    const t = (i - strike) / sampleRate;
+    let sample = 0;
+    partials.forEach(({ freq, amp, decay }) => {
+      const env = Math.exp(-t / decay) * Math.min(1, t / 0.005);
+      sample += amp * env * (Math.sin(2 * Math.PI * freq * t) + Math.sin(2 * Math.PI * (freq + 1.3) * t)) / 2;
+    });
+    // Force silence at the loop point so repeats never click
+    data[i] = sample * Math.min(1, (length - i) / tailFade);
+  }
+  return buffer;
+});
+
+const loopSource = (ctx: BaseAudioContext, buffer: AudioBuffer) => {
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.loop = true;
+  return source;
+};
+
+// Builds the node graph for one layer and returns every source that must be started
+const buildLayer = (ctx: BaseAudioContext, id: AmbientLayerId, out: AudioNode): AudioScheduledSourceNode[] => {
+  switch (id) {
+    case 'rain': {
+      const source = loopSource(ctx, noiseBuffer(ctx, 'pink'));
+      const highpass = ctx.createBiquadFilter();
+      highpass.type = 'highpass';
+      highpass.frequency.value = 900;
+      const lowpass = ctx.createBiquadFilter();
+      lowpass.type = 'lowpass';
+      lowpass.frequency.value = 7000;
+      source.connect(highpass).connect(lowpass).connect(out);
+      return [source];
+    }
+    case 'ocean': {
+      const source = loopSource(ctx, noiseBuffer(ctx, 'brown'));
+      const lowpass = ctx.createBiquadFilter();
+      lowpass.type = 'lowpass';
+      lowpass.frequency.value = 700;
+      const swell = ctx.createGain();
+      swell.gain.value = 0.6;
+      // ~11s wave cycle modulates the swell
+      const lfo = ctx.createOscillator();
+      lfo.frequency.value = 0.09;
+      const depth = ctx.createGain();
+      depth.gain.value = 0.4;
+      lfo.connect(depth).connect(swell.gain);
+      source.connect(lowpass).connect(swell).connect(out);
+      return [source, lfo];
+    }
+    case 'brown':
+    case 'pink': {
+      const source = loopSource(ctx, noiseBuffer(ctx, id));
+      source.connect(out);
+      return [source];
+    }
+    case 'drone': {
+      const lowpass = ctx.createBiquadFilter();
+      lowpass.type = 'lowpass';
+      lowpass.frequency.value = 500;
+      const breath = ctx.createGain();
+      breath.gain.value = 0.7;
+      const lfo = ctx.createOscillator();
+      lfo.frequency.value = 0.05;
+      const depth = ctx.createGain();
+      depth.gain.value = 0.25;
+      lfo.connect(depth).connect(breath.gain);
+      lowpass.connect(breath).connect(out);
+
+      const voices = [
+        { freq: 55, type: 'sine' as OscillatorType, gain: 0.35 },
+        { freq: 82.4, type: 'sine' as OscillatorType, gain: 0.2 },
+        { freq: 110.3, type: 'triangle' as OscillatorType, gain: 0.12 },
+        { freq: 164.8, type: 'sine' as OscillatorType, gain: 0.06 },
+      ].map(({ freq, type, gain }) => {
+        const osc = ctx.createOscillator();
+        osc.type = type;
+        osc.frequency.value = freq;
+        const level = ctx.createGain();
+        level.gain.value = gain;
+        osc.connect(level).connect(lowpass);
+        return osc;
+      });
+      return [...voices, lfo];
+    }
+    case 'bowl': {
+      const source = loopSource(ctx, bowlBuffer(ctx));
+      source.connect(out);
+      return [source];
+    }
+  }
+};
+
+export interface SpeechRegion {
+  start: number;
+  end: number;
+}
+
+const regionCache = new WeakMap<AudioBuffer, SpeechRegion[]>();
+
+/**
+ * Finds where the guide is speaking, from the RMS envelope of the voice track.
+ * Short gaps between words are merged so the bed doesn't pump.
+ */
+export const detectSpeechRegions = (buffer: AudioBuffer): SpeechRegion[] => {
+  const existing = regionCache.get(buffer);
+  if (existing) return existing;
+
+  const data = buffer.getChannelData(0);
+  const windowSize = Math.floor(buffer.sampleRate * 0.05);
+  const levels: number[] = [];
+  for (let i = 0; i < data.length; i += windowSize) {
+    let sum = 0;
+    const end = Math.min(i + windowSize, data.length);
+    for (let j = i; j < end; j++) sum += data[j] * data[j];
+    levels.push(Math.sqrt(sum / (end - i)));
+  }
+
+  const peak = levels.reduce((max, level) => Math.max(max, level), 0);
+  const threshold = Math.max(0.005, peak * 0.08);
+  const windowSeconds = windowSize / buffer.sampleRate;
+  const regions: SpeechRegion[] = [];
+  levels.forEach((level, i) => {
+    if (level < threshold) return;
+    const start = i * windowSeconds;
+    const previous = regions[regions.length - 1];
+    if (previous && start - previous.end < 0.8) {
+      previous.end = start + windowSeconds;
+    } else {
+      regions.push({ start, end: start + windowSeconds });
+    }
+  });
+
+  regionCache.set(buffer, regions);
+  return regions;
+};
+
+export interface AmbientMixer {
+  output: AudioNode;
+  setLevel: (id: AmbientLayerId, level: number) => void;
+  /** Starts every layer at `when`, fading in over `fadeIn` seconds. */
+  start: (when: number, fadeIn: number) => void;
+  /**
+   * Lowers the bed under each speech region, for a voice starting at `offset`
+   * seconds and context time `when`. Pass `replace: false` to add regions
+   * (e.g. audio that is still streaming in) without clearing earlier ones.
+   */
+  scheduleDucking: (regions: SpeechRegion[], offset: number, when: number, replace?: boolean) => void;
+  /** Fades out over `duration` seconds ending at context time `at`, then stops. */
+  fadeOut: (at: number, duration: number) => void;
+  /** Quick fade and stop, e.g. on pause. */
+  stop: () => void;
+}
+
+const levelToGain = (level: number) => level * level * LAYER_HEADROOM;
+
+/**
+ * Creates a fresh ambient graph. Source nodes can only start once, so build a
+ * new mixer for every play; connect `output` wherever the voice goes.
+ */
+export const createAmbientMixer = (ctx: BaseAudioContext, levels: AmbientLevels): AmbientMixer => {
+  const master = ctx.createGain();
+  const duck = ctx.createGain();
+  duck.connect(master);
+  master.gain.value = 0;
+
+  const layerGains = {} as Record<AmbientLayerId, GainNode>;
+  const sources: AudioScheduledSourceNode[] = [];
+  AMBIENT_LAYERS.forEach(({ id }) => {
+    const gain = ctx.createGain();
+    gain.gain.value = levelToGain(levels[id]);
+    gain.connect(duck);
+    layerGains[id] = gain;
+    sources.push(...buildLayer(ctx, id, gain));
+  });
+
+  let stopped = false;
+
+  const stopSources = (when: number) => {
+    if (stopped) return;
+    stopped = true;
+    sources.forEach((source) => {
+      try {
+        source.stop(when);
+      } catch (e) {
+        // not started yet
+      }
+    });
+  };
+
+  return {
+    output: master,
+    setLevel: (id, level) => {
+      layerGains[id].gain.setTargetAtTime(levelToGain(level), ctx.currentTime, 0.05);
+    },
+    start: (when, fadeIn) => {
+      sources.forEach((source) => source.start(when));
+      master.gain.setValueAtTime(0, when);
+      master.gain.linearRampToValueAtTime(1, when + fadeIn);
+    },
+    scheduleDucking: (regions, offset, when, replace = true) => {
+      const lead = 0.2; // start ducking just before the first word
+      if (replace) {
+        duck.gain.cancelScheduledValues(ctx.currentTime);
+        duck.gain.setValueAtTime(1, when);
+      }
+      regions.forEach(({ start, end }) => {
+        if (end <= offset) return;
+        const duckAt = Math.max(when, when + start - offset - lead);
+        const releaseAt = when + end - offset;
+        duck.gain.setTargetAtTime(DUCK_LEVEL, duckAt, 0.08);
+        duck.gain.setTargetAtTime(1, releaseAt, 0.5);
+      });
+    },
+    fadeOut: (at, duration) => {
+      const from = Math.max(ctx.currentTime, at - duration);
+      master.gain.setValueAtTime(1, from);
+      master.gain.linearRampToValueAtTime(0, at);
+      stopSources(at + 0.1);
+    },
+    stop: () => {
+      const now = ctx.currentTime;
+      master.gain.cancelScheduledValues(now);
+      master.gain.setTargetAtTime(0, now, 0.08);
+      stopSources(now + 0.5);
+    },
+  };
+};
\ No newline at end of file
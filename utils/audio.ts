@@ -8,6 +8,15 @@ export function decode(base64: string): Uint8Array {
   return bytes;
 }
 
+export function encode(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
 export async function decodeAudioData(
   data: Uint8Array,
   ctx: AudioContext,
@@ -29,6 +38,84 @@ export async function decodeAudioData(
   return buffer;
 }
 
+/**
+ * Inverse of decodeAudioData: flattens an AudioBuffer back into interleaved
+ * 16-bit LE PCM so it can be persisted and later rebuilt without the API.
+ */
+export function encodePCM(buffer: AudioBuffer): Uint8Array {
+  const numChannels = buffer.numberOfChannels;
+  const frameCount = buffer.length;
+  const dataInt16 = new Int16Array(frameCount * numChannels);
+
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      // Clamp then convert Float32 [-1.0, 1.0] to Int16
+      const sample = Math.max(-1, Math.min(1, channelData[i]));
+      dataInt16[i * numChannels + channel] = sample < 0 ? sample * 32768 : sample * 32767;
+    }
+  }
+  return new Uint8Array(dataInt16.buffer);
+}
+
+// Overlap between clips that continue the same paragraph
+export const CROSSFADE_SECONDS = 0.03;
+
+export type StitchPiece =
+  | { kind: 'audio'; buffer: AudioBuffer; joinPrevious?: boolean }
+  | { kind: 'silence'; seconds: number };
+
+/**
+ * Concatenates audio clips and silent gaps into one buffer. Every clip gets a
+ * short equal-power fade at both edges; clips marked `joinPrevious` overlap
+ * the clip before them by that fade, giving a seamless crossfade.
+ * Returns the buffer and the start time (seconds) of each piece.
+ */
+export function stitchAudio(
+  ctx: BaseAudioContext,
+  pieces: StitchPiece[],
+  crossfadeSeconds: number = CROSSFADE_SECONDS,
+): { buffer: AudioBuffer; offsets: number[] } {
+  const sampleRate = ctx.sampleRate;
+  const fade = Math.floor(crossfadeSeconds * sampleRate);
+  const numChannels = Math.max(1, ...pieces.map((p) => (p.kind === 'audio' ? p.buffer.numberOfChannels : 1)));
+
+  // Lay out every piece on the timeline first
+  const starts: number[] = [];
+  let cursor = 0;
+  pieces.forEach((piece, i) => {
+    if (piece.kind === 'audio') {
+      const previous = pieces[i - 1];
+      const start = piece.joinPrevious && previous?.kind === 'audio' ? Math.max(0, cursor - fade) : cursor;
+      starts.push(start);
+      cursor = start + piece.buffer.length;
+    } else {
+      starts.push(cursor);
+      cursor += Math.floor(piece.seconds * sampleRate);
+    }
+  });
+
+  const output = ctx.createBuffer(numChannels, Math.max(1, cursor), sampleRate);
+  pieces.forEach((piece, i) => {
+    if (piece.kind !== 'audio') return;
+    const { buffer } = piece;
+    const edge = Math.min(fade, Math.floor(buffer.length / 2));
+    for (let channel = 0; channel < numChannels; channel++) {
+      // Mono clips are copied into every output channel
+      const input = buffer.getChannelData(Math.min(channel, buffer.numberOfChannels - 1));
+      const target = output.getChannelData(channel);
+      for (let j = 0; j < buffer.length; j++) {
+        let gain = 1;
+        if (j < edge) gain = Math.sin((j / edge) * Math.PI / 2);
+        else if (j >= buffer.length - edge) gain = Math.sin(((buffer.length - j) / edge) * Math.PI / 2);
+        target[starts[i] + j] += input[j] * gain;
+      }
+    }
+  });
+
+  return { buffer: output, offsets: starts.map((s) => s / sampleRate) };
+}
+
 // Singleton Audio Context to be reused
 let audioContext: AudioContext | null = null;
 
@@ -37,4 +124,75 @@ export const getAudioContext = () => {
     audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
   }
   return audioContext;
-};
\ No newline at end of file
+};
+
+// The meditation player plays through this bus rather than straight to the
+// speakers, so other sounds (the guide answering in chat) can duck it
+let programBus: GainNode | null = null;
+
+export const getProgramBus = () => {
+  if (!programBus) {
+    const ctx = getAudioContext();
+    programBus = ctx.createGain();
+    programBus.connect(ctx.destination);
+  }
+  return programBus;
+};
+
+// Program level while the guide speaks over it
+const DUCKED_GAIN = 0.2;
+
+const duckProgram = (ducked: boolean) => {
+  const ctx = getAudioContext();
+  const gain = getProgramBus().gain;
+  gain.cancelScheduledValues(ctx.currentTime);
+  gain.setTargetAtTime(ducked ? DUCKED_GAIN : 1, ctx.currentTime, 0.15);
+};
+
+/**
+ * Plays a clip over the meditation, ducking it until the clip ends or is
+ * stopped. Resolves once playback is over either way.
+ */
+export const playOverProgram = (buffer: AudioBuffer): { stop: () => void; ended: Promise<void> } => {
+  const ctx = getAudioContext();
+  if (ctx.state === 'suspended') ctx.resume();
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.connect(ctx.destination);
+
+  duckProgram(true);
+  const ended = new Promise<void>((resolve) => {
+    source.onended = () => {
+      duckProgram(false);
+      resolve();
+    };
+  });
+  source.start();
+  return {
+    stop: () => {
+      try {
+        source.stop();
+      } catch (e) {
+        // already finished
+      }
+    },
+    ended,
+  };
+};
+
+/**
+ * Returns a copy of `buffer` with `insert` placed at `at` seconds; everything
+ * after that point moves later by the inserted length.
+ */
+export function spliceAudio(ctx: BaseAudioContext, buffer: AudioBuffer, at: number, insert: AudioBuffer): AudioBuffer {
+  const split = Math.min(buffer.length, Math.max(0, Math.round(at * buffer.sampleRate)));
+  const result = ctx.createBuffer(buffer.numberOfChannels, buffer.length + insert.length, buffer.sampleRate);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const source = buffer.getChannelData(channel);
+    const target = result.getChannelData(channel);
+    target.set(source.subarray(0, split));
+    target.set(insert.getChannelData(Math.min(channel, insert.numberOfChannels - 1)), split);
+    target.set(source.subarray(split), split + insert.length);
+  }
+  return result;
+}
\ No newline at end of file
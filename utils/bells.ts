@@ -0,0 +1,64 @@
+// Meditation bells, synthesized as singing-bowl strikes: a handful of
+// inharmonic partials, each with its own exponential decay and a slightly
+// detuned twin so the tone beats the way a real bowl does.
+
+export type BellKind = 'start' | 'interval' | 'end';
+
+// Frequency ratio to the fundamental, level, and ring time (seconds to fall by 1/e)
+const PARTIALS: [number, number, number][] = [
+  [1, 1, 3.2],
+  [2.71, 0.5, 2.1],
+  [5.12, 0.28, 1.2],
+  [8.27, 0.14, 0.7],
+  [12.1, 0.06, 0.4],
+];
+
+// How far each twin is detuned, in Hz
+const BEAT_HZ = 0.9;
+
+interface BellStyle {
+  pitch: number; // fundamental, Hz
+  strikes: number;
+  volume: number;
+}
+
+// A clear strike to begin, a softer one between, three to close
+const BELL_STYLES: Record<BellKind, BellStyle> = {
+  start: { pitch: 262, strikes: 1, volume: 0.5 },
+  interval: { pitch: 330, strikes: 1, volume: 0.3 },
+  end: { pitch: 262, strikes: 3, volume: 0.5 },
+};
+
+const STRIKE_SPACING_SECONDS = 4;
+const RING_SECONDS = 9;
+
+/**
+ * Renders a bell into a buffer that starts on the strike, so it can be
+ * placed exactly on a session's timeline.
+ */
+export const renderBell = (ctx: BaseAudioContext, kind: BellKind): AudioBuffer => {
+  const { pitch, strikes, volume } = BELL_STYLES[kind];
+  const sampleRate = ctx.sampleRate;
+  const total = STRIKE_SPACING_SECONDS * (strikes - 1) + RING_SECONDS;
+  const buffer = ctx.createBuffer(1, Math.ceil(total * sampleRate), sampleRate);
+  const data = buffer.getChannelData(0);
+  const ringLength = Math.floor(RING_SECONDS * sampleRate);
+  const attack = 0.004 * sampleRate;
+
+  for (let strike = 0; strike < strikes; strike++) {
+    const offset = Math.floor(strike * STRIKE_SPACING_SECONDS * sampleRate);
+    for (let i = 0; i < ringLength && offset + i < data.length; i++) {
+      const t = i / sampleRate;
+      let sample = 0;
+      for (const [ratio, level, ring] of PARTIALS) {
+        const f = pitch * ratio;
+        const decay = Math.exp(-t / ring);
+        sample += level * decay * (Math.sin(2 * Math.PI * f * t) + Math.sin(2 * Math.PI * (f + BEAT_HZ) * t)) / 2;
+      }
+      // Soft attack so the strike doesn't click, and a short fade at the very end
+      const edge = Math.min(1, i / attack, (ringLength - i) / (0.2 * sampleRate));
+      data[offset + i] += sample * edge * volume * 0.5;
+    }
+  }
+  return buffer;
+};
\ No newline at end of file
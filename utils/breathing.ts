@@ -0,0 +1,145 @@
+// Breathing patterns, their timelines and the cue tones that pace them.
+// Patterns are written as "inhale-hold-exhale-hold" seconds, e.g. "4-7-8-0".
+
+export type BreathPhase = 'inhale' | 'hold-in' | 'exhale' | 'hold-out';
+
+// Seconds for each phase of one breath; a zero-length phase is skipped
+export type BreathTiming = Record<BreathPhase, number>;
+
+export const PHASE_ORDER: BreathPhase[] = ['inhale', 'hold-in', 'exhale', 'hold-out'];
+
+export const PHASE_LABELS: Record<BreathPhase, string> = {
+  'inhale': 'Inhale',
+  'hold-in': 'Hold',
+  'exhale': 'Exhale',
+  'hold-out': 'Hold',
+};
+
+export interface BreathingPattern {
+  id: string;
+  name: string;
+  description: string;
+  timing: BreathTiming;
+}
+
+// 5.5 breaths per minute, split evenly between inhale and exhale
+const COHERENT_HALF = Math.round((60 / 5.5 / 2) * 100) / 100;
+
+export const BREATHING_PATTERNS: BreathingPattern[] = [
+  { id: 'box', name: 'Box', description: 'Inhale 4 · hold 4 · exhale 4 · hold 4', timing: { 'inhale': 4, 'hold-in': 4, 'exhale': 4, 'hold-out': 4 } },
+  { id: '4-7-8', name: '4-7-8', description: 'Inhale 4 · hold 7 · exhale 8', timing: { 'inhale': 4, 'hold-in': 7, 'exhale': 8, 'hold-out': 0 } },
+  { id: 'coherent', name: 'Coherent', description: '5.5 breaths a minute, even in and out', timing: { 'inhale': COHERENT_HALF, 'hold-in': 0, 'exhale': COHERENT_HALF, 'hold-out': 0 } },
+];
+
+export const DEFAULT_CUSTOM_TIMING: BreathTiming = { 'inhale': 4, 'hold-in': 2, 'exhale': 6, 'hold-out': 0 };
+
+// Longest phase a custom pattern may use
+export const MAX_PHASE_SECONDS = 20;
+export const MAX_ROUNDS = 30;
+
+export const getPattern = (id: string) => BREATHING_PATTERNS.find((p) => p.id === id);
+
+export const cycleSeconds = (timing: BreathTiming) =>
+  PHASE_ORDER.reduce((sum, phase) => sum + timing[phase], 0);
+
+export interface BreathStep {
+  phase: BreathPhase;
+  round: number; // from 0
+  start: number; // seconds from the start of the exercise
+  seconds: number;
+}
+
+/**
+ * Every phase of every round, in order.
+ */
+export const breathingTimeline = (timing: BreathTiming, rounds: number): BreathStep[] => {
+  const steps: BreathStep[] = [];
+  let start = 0;
+  for (let round = 0; round < rounds; round++) {
+    PHASE_ORDER.forEach((phase) => {
+      if (timing[phase] <= 0) return;
+      steps.push({ phase, round, start, seconds: timing[phase] });
+      start += timing[phase];
+    });
+  }
+  return steps;
+};
+
+/**
+ * The step under way `elapsed` seconds in, or -1 once the exercise is over.
+ */
+export const findBreathStep = (steps: BreathStep[], elapsed: number): number =>
+  steps.findIndex((step) => elapsed < step.start + step.seconds);
+
+// Script marker for a breathing exercise, e.g. "[breathe box x4]" or "[breathe 4-2-6-0 x5]"
+export const BREATHING_MARKER = /\[\s*breathe\s+([\w.-]+)\s+x\s*(\d+)\s*\]/gi;
+
+/**
+ * A preset id, or custom seconds as "4-2-6-0", back to its timing.
+ */
+export const resolveTiming = (spec: string): BreathTiming | null => {
+  const preset = getPattern(spec.toLowerCase());
+  if (preset) return preset.timing;
+  const seconds = spec.split('-').map(Number);
+  if (seconds.length !== 4 || seconds.some((s) => !(s >= 0 && s <= MAX_PHASE_SECONDS)) || !seconds.some((s) => s > 0)) return null;
+  return Object.fromEntries(PHASE_ORDER.map((phase, i) => [phase, seconds[i]])) as BreathTiming;
+};
+
+export const formatTimingSpec = (timing: BreathTiming) => PHASE_ORDER.map((phase) => timing[phase]).join('-');
+
+export const formatBreathingMarker = (spec: string, rounds: number) => `[breathe ${spec} x${rounds}]`;
+
+// A pattern as chosen in the UI: a preset, or "custom" with its own timing
+export interface BreathingChoice {
+  patternId: string;
+  custom: BreathTiming;
+  rounds: number;
+}
+
+export const DEFAULT_BREATHING_CHOICE: BreathingChoice = { patternId: 'box', custom: DEFAULT_CUSTOM_TIMING, rounds: 6 };
+
+export const choiceTiming = (choice: BreathingChoice): BreathTiming => getPattern(choice.patternId)?.timing ?? choice.custom;
+
+// What goes in a script marker: the preset id, or the custom seconds
+export const choiceSpec = (choice: BreathingChoice): string =>
+  getPattern(choice.patternId) ? choice.patternId : formatTimingSpec(choice.custom);
+
+// Silence before rendered cues (and after), so they don't butt against speech
+export const CUE_LEAD_SECONDS = 1;
+const TONE_SECONDS = 0.45;
+
+// Rising for inhale, falling for exhale, a soft low note for holds
+const TONE_PITCH: Record<BreathPhase, [number, number]> = {
+  'inhale': [392, 523],
+  'hold-in': [330, 330],
+  'exhale': [523, 392],
+  'hold-out': [294, 294],
+};
+
+/**
+ * Renders the cue tones for a breathing exercise: a short gliding tone at the
+ * start of each phase, over silence, so it can sit in a session's timeline.
+ */
+export const renderBreathingCues = (ctx: BaseAudioContext, timing: BreathTiming, rounds: number): AudioBuffer => {
+  const steps = breathingTimeline(timing, rounds);
+  const total = CUE_LEAD_SECONDS * 2 + cycleSeconds(timing) * rounds;
+  const sampleRate = ctx.sampleRate;
+  const buffer = ctx.createBuffer(1, Math.ceil(total * sampleRate), sampleRate);
+  const data = buffer.getChannelData(0);
+  const toneLength = Math.floor(TONE_SECONDS * sampleRate);
+
+  steps.forEach(({ phase, start }) => {
+    const [from, to] = TONE_PITCH[phase];
+    const offset = Math.floor((CUE_LEAD_SECONDS + start) * sampleRate);
+    const volume = phase.startsWith('hold') ? 0.12 : 0.2;
+    let angle = 0;
+    for (let i = 0; i < toneLength && offset + i < data.length; i++) {
+      const t = i / toneLength;
+      angle += (2 * Math.PI * (from + (to - from) * t)) / sampleRate;
+      // Quick attack, long bell-like decay
+      const env = Math.min(1, i / (0.01 * sampleRate)) * Math.pow(1 - t, 2);
+      data[offset + i] = Math.sin(angle) * env * volume;
+    }
+  });
+  return buffer;
+};
\ No newline at end of file
@@ -0,0 +1,26 @@
+/**
+ * Returns a scheduler that runs at most `limit` tasks at once, starting them
+ * in the order they were queued. Suits work that arrives over time, such as
+ * speech segments of a script that is still being written.
+ */
+export const createLimiter = (limit: number) => {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  const next = () => {
+    if (active >= limit || !queue.length) return;
+    active++;
+    queue.shift()!();
+  };
+
+  return <R>(task: () => Promise<R>): Promise<R> =>
+    new Promise<R>((resolve, reject) => {
+      queue.push(() => {
+        task().then(resolve, reject).finally(() => {
+          active--;
+          next();
+        });
+      });
+      next();
+    });
+};
\ No newline at end of file
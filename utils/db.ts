@@ -0,0 +1,102 @@
+// Thin promise wrapper around the single IndexedDB database used by the app.
+
+const DB_NAME = 'zengen';
+const DB_VERSION = 6;
+
+// Every object store the app uses. Adding a store requires bumping DB_VERSION
+// so `onupgradeneeded` runs and creates it for existing users.
+export const STORES = {
+  sessions: 'sessions',
+  audio: 'audio',
+  chats: 'chats',
+  courses: 'courses',
+  practice: 'practice',
+  templates: 'templates',
+  cacheEntries: 'cacheEntries',
+  cacheData: 'cacheData',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.values(STORES).forEach((name) => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' });
+          }
+        });
+      };
+      // Another tab holds an older version open and won't let go; the open
+      // would otherwise wait forever
+      let blocked = false;
+      request.onblocked = () => {
+        blocked = true;
+        reject(new Error('ZenGen is open in another tab on an older version. Close that tab and reload.'));
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // Step aside when a newer version of the app opens in another tab
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. private mode)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDB();
+  const tx = db.transaction(store, mode);
+  // Listen for completion up-front so writes are only reported once durable
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const [result] = await Promise.all([promisify(fn(tx.objectStore(store))), done]);
+  return result;
+};
+
+export const idbGet = <T>(store: StoreName, id: string): Promise<T | undefined> =>
+  withStore(store, 'readonly', (s) => s.get(id));
+
+export const idbGetAll = <T>(store: StoreName): Promise<T[]> =>
+  withStore(store, 'readonly', (s) => s.getAll());
+
+export const idbPut = async <T extends { id: string }>(store: StoreName, value: T): Promise<void> => {
+  await withStore(store, 'readwrite', (s) => s.put(value));
+};
+
+export const idbDelete = async (store: StoreName, id: string): Promise<void> => {
+  await withStore(store, 'readwrite', (s) => s.delete(id));
+};
\ No newline at end of file
@@ -0,0 +1,13 @@
+/**
+ * Formats seconds as m:ss (or h:mm:ss for long sessions).
+ */
+export const formatTime = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+export const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
\ No newline at end of file
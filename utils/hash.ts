@@ -0,0 +1,33 @@
+/**
+ * FNV-1a 32-bit hash. Fast and deterministic; not for security.
+ */
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * 53-bit hash (cyrb53) as hex: two mixed 32-bit lanes, wide enough to
+ * address cached content without collisions in practice. Not for security.
+ */
+export const hashContent = (value: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+};
+
+/**
+ * Deterministically picks an item from a list for a given seed string.
+ */
+export const pick = <T>(items: T[], seed: string): T => items[hashString(seed) % items.length];
\ No newline at end of file
@@ -0,0 +1,133 @@
+// A small Markdown subset for guide replies, parsed into plain data so the
+// UI renders it as React elements. Raw HTML is never interpreted; it comes
+// through as literal text.
+
+export type MarkdownInline =
+  | { kind: 'text'; text: string }
+  | { kind: 'code'; text: string }
+  | { kind: 'strong' | 'em'; children: MarkdownInline[] }
+  | { kind: 'link'; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'list'; ordered: boolean; start: number; items: string[] }
+  | { kind: 'quote'; text: string }
+  | { kind: 'code'; text: string };
+
+// Code, bold, italic (underscores only at word edges, so snake_case stays) and links
+const INLINE_PATTERN = /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|\*(?!\s)(.+?)\*|(?<!\w)_(?!\s)(.+?)_(?!\w)|\[([^\]]+)\]\(([^)\s]+)\)/;
+
+// Only links that can't run script
+const SAFE_HREF = /^(https?:|mailto:)/i;
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+  while (rest) {
+    const match = rest.match(INLINE_PATTERN);
+    if (!match || match.index === undefined) {
+      nodes.push({ kind: 'text', text: rest });
+      break;
+    }
+    if (match.index > 0) nodes.push({ kind: 'text', text: rest.slice(0, match.index) });
+
+    const [whole, code, strong, strongAlt, em, emAlt, label, href] = match;
+    if (code !== undefined) nodes.push({ kind: 'code', text: code });
+    else if (strong !== undefined || strongAlt !== undefined) nodes.push({ kind: 'strong', children: parseInline(strong ?? strongAlt) });
+    else if (em !== undefined || emAlt !== undefined) nodes.push({ kind: 'em', children: parseInline(em ?? emAlt) });
+    else if (SAFE_HREF.test(href)) nodes.push({ kind: 'link', href, children: parseInline(label) });
+    else nodes.push({ kind: 'text', text: whole });
+
+    rest = rest.slice(match.index + whole.length);
+  }
+  return nodes;
+};
+
+const FENCE = /^\s*```/;
+
+/**
+ * Splits Markdown into blocks. Tolerates text that is still streaming in:
+ * an unclosed code fence runs to the end.
+ */
+export const parseMarkdown = (markdown: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length) blocks.push({ kind: 'paragraph', text: paragraph.join('\n') });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (FENCE.test(line)) {
+      flush();
+      const code: string[] = [];
+      while (++i < lines.length && !FENCE.test(lines[i])) code.push(lines[i]);
+      blocks.push({ kind: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      flush();
+      blocks.push({ kind: 'heading', level: heading[1].length, text: heading[2] });
+      continue;
+    }
+
+    const item = line.match(/^\s*(?:[-*+]|(\d+)[.)])\s+(.*)$/);
+    if (item) {
+      flush();
+      // Read after flushing, so a paragraph in between starts a new list
+      const last = blocks[blocks.length - 1];
+      const ordered = item[1] !== undefined;
+      // Items separated only by blank lines stay in one list
+      if (last?.kind === 'list' && last.ordered === ordered) last.items.push(item[2]);
+      else blocks.push({ kind: 'list', ordered, start: ordered ? Number(item[1]) : 1, items: [item[2]] });
+      continue;
+    }
+
+    const quote = line.match(/^>\s?(.*)$/);
+    if (quote) {
+      flush();
+      const last = blocks[blocks.length - 1];
+      if (last?.kind === 'quote') last.text += `\n${quote[1]}`;
+      else blocks.push({ kind: 'quote', text: quote[1] });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+
+    // An indented line right after a list item continues that item
+    const last = blocks[blocks.length - 1];
+    if (!paragraph.length && last?.kind === 'list' && /^\s+\S/.test(line)) {
+      last.items[last.items.length - 1] += ` ${line.trim()}`;
+      continue;
+    }
+    paragraph.push(line);
+  }
+  flush();
+  return blocks;
+};
+
+const inlineText = (nodes: MarkdownInline[]): string =>
+  nodes.map((node) => ('children' in node ? inlineText(node.children) : node.text)).join('');
+
+/**
+ * The words of a Markdown text, one block per line, for reading aloud.
+ * Code blocks are skipped.
+ */
+export const toPlainText = (markdown: string): string =>
+  parseMarkdown(markdown)
+    .flatMap((block) => {
+      if (block.kind === 'code') return [];
+      if (block.kind === 'list') return block.items.map((item) => inlineText(parseInline(item)));
+      return [inlineText(parseInline(block.text))];
+    })
+    .join('\n');
\ No newline at end of file
@@ -0,0 +1,109 @@
+import { getAudioContext } from './audio';
+import { encodeWAV } from './wav';
+
+// Lock screen, notification and media-key integration. The session itself
+// plays through Web Audio; a silent looping <audio> element is what tells
+// the OS a page is playing media, so it keeps running with the screen off
+// and shows the controls registered here.
+
+// Lock screen skip buttons move by this much
+const SEEK_STEP_SECONDS = 15;
+
+export interface MediaInfo {
+  title: string;
+  subtitle?: string;
+  artworkUrl?: string;
+}
+
+export interface MediaActions {
+  play: () => void;
+  pause: () => void;
+  seek: (seconds: number) => void;
+  getPosition: () => number;
+}
+
+let keepAlive: HTMLAudioElement | null = null;
+
+const getKeepAlive = () => {
+  if (!keepAlive) {
+    const ctx = getAudioContext();
+    const silence = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+    keepAlive = new Audio(URL.createObjectURL(new Blob([encodeWAV(silence)], { type: 'audio/wav' })));
+    keepAlive.loop = true;
+  }
+  return keepAlive;
+};
+
+/**
+ * Marks the page as playing (or not) so playback survives the screen
+ * turning off. Safe to call outside a user gesture; a refused play() only
+ * loses the background behaviour, never the sound.
+ */
+export const setBackgroundPlayback = (playing: boolean) => {
+  // Safari: keep playing through the silent switch and a locked screen
+  if (navigator.audioSession) navigator.audioSession.type = playing ? 'playback' : 'auto';
+
+  const element = getKeepAlive();
+  if (playing) element.play().catch(() => {});
+  else element.pause();
+};
+
+const mimeFromDataUrl = (url: string) => url.match(/^data:([^;,]+)/)?.[1];
+
+/**
+ * Shows the session on the lock screen and routes its controls (and media
+ * keys) to `actions`. Returns a function that removes it all again.
+ */
+export const setMediaSession = (info: MediaInfo, actions: MediaActions): (() => void) => {
+  if (!('mediaSession' in navigator)) return () => {};
+  const { mediaSession } = navigator;
+
+  mediaSession.metadata = new MediaMetadata({
+    title: info.title,
+    artist: 'ZenGen',
+    album: info.subtitle ?? '',
+    artwork: info.artworkUrl ? [{ src: info.artworkUrl, type: mimeFromDataUrl(info.artworkUrl) }] : [],
+  });
+
+  const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+    ['play', () => actions.play()],
+    ['pause', () => actions.pause()],
+    ['stop', () => actions.pause()],
+    ['seekto', (details) => details.seekTime !== undefined && actions.seek(details.seekTime)],
+    ['seekbackward', (details) => actions.seek(actions.getPosition() - (details.seekOffset ?? SEEK_STEP_SECONDS))],
+    ['seekforward', (details) => actions.seek(actions.getPosition() + (details.seekOffset ?? SEEK_STEP_SECONDS))],
+  ];
+  handlers.forEach(([action, handler]) => {
+    try {
+      mediaSession.setActionHandler(action, handler);
+    } catch {
+      // Not every browser supports every action
+    }
+  });
+
+  return () => {
+    handlers.forEach(([action]) => {
+      try {
+        mediaSession.setActionHandler(action, null);
+      } catch {
+        // see above
+      }
+    });
+    mediaSession.metadata = null;
+    mediaSession.playbackState = 'none';
+  };
+};
+
+/**
+ * Tells the OS where playback is, so its scrubber moves on its own.
+ */
+export const updateMediaPosition = (playing: boolean, position: number, duration: number) => {
+  if (!('mediaSession' in navigator)) return;
+  navigator.mediaSession.playbackState = playing ? 'playing' : 'paused';
+  if (!duration || !Number.isFinite(duration)) return;
+  try {
+    navigator.mediaSession.setPositionState({ duration, position: Math.min(Math.max(position, 0), duration), playbackRate: 1 });
+  } catch {
+    // Rejected while the duration is still settling; the next update will do
+  }
+};
\ No newline at end of file
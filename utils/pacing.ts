@@ -0,0 +1,109 @@
+import { VoiceSettings } from '../types';
+import { loadPreference, savePreference } from './storage';
+import { stripPauseMarkers } from './script';
+import { getPace } from './voices';
+
+// How far (as a fraction of the target) the final audio may drift
+export const DURATION_TOLERANCE = 0.15;
+// Bounds for a single pause after rescaling, in seconds
+const MIN_PAUSE_SECONDS = 2;
+const MAX_PAUSE_SECONDS = 300;
+
+export const DURATION_PRESETS = [5, 10, 20, 30];
+export const MIN_DURATION_MINUTES = 1;
+export const MAX_DURATION_MINUTES = 60;
+
+export interface ScriptBudget {
+  words: number;
+  pauseSeconds: number;
+}
+
+interface SpeakingRate {
+  wordsPerMinute: number;
+  samples: number;
+}
+
+// Rates differ by language and pace, so each combination is measured separately
+const rateKey = ({ language, pace }: Pick<VoiceSettings, 'language' | 'pace'>) => `${language}:${pace}`;
+
+const loadRate = (settings: Pick<VoiceSettings, 'language' | 'pace'>): SpeakingRate => {
+  const rates = loadPreference<Record<string, SpeakingRate>>('speakingRates', {});
+  return rates[rateKey(settings)] || { wordsPerMinute: getPace(settings.pace).wordsPerMinute, samples: 0 };
+};
+
+export const getSpeakingRate = (settings: Pick<VoiceSettings, 'language' | 'pace'>): number =>
+  loadRate(settings).wordsPerMinute;
+
+/**
+ * Folds a measured synthesis into the running speaking-rate average.
+ */
+export const recordSpeakingRate = (settings: Pick<VoiceSettings, 'language' | 'pace'>, words: number, speechSeconds: number) => {
+  if (words < 20 || speechSeconds <= 0) return; // too little to be meaningful
+  const measured = Math.min(250, Math.max(40, (words / speechSeconds) * 60));
+  const current = loadRate(settings);
+  // Weight early samples heavily, then settle into a moving average
+  const weight = Math.max(0.3, 1 / (current.samples + 1));
+  const rates = loadPreference<Record<string, SpeakingRate>>('speakingRates', {});
+  savePreference('speakingRates', {
+    ...rates,
+    [rateKey(settings)]: {
+      wordsPerMinute: current.wordsPerMinute + (measured - current.wordsPerMinute) * weight,
+      samples: current.samples + 1,
+    },
+  });
+};
+
+/**
+ * Counts words with the locale's word segmenter, so languages written
+ * without spaces (Japanese, Chinese, Thai) are measured sensibly too.
+ */
+export const countWords = (text: string, language: string = 'en'): number => {
+  const plain = stripPauseMarkers(text);
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    const segmenter = new Intl.Segmenter(language, { granularity: 'word' });
+    let count = 0;
+    for (const segment of segmenter.segment(plain)) {
+      if (segment.isWordLike) count++;
+    }
+    return count;
+  }
+  return plain.split(/\s+/).filter(Boolean).length;
+};
+
+/**
+ * Splits a target length into speech and silence. Longer sessions lean
+ * more on silence, as real guided meditations do.
+ */
+export const planBudget = (minutes: number, wordsPerMinute: number): ScriptBudget => {
+  const totalSeconds = minutes * 60;
+  const pauseShare = Math.min(0.6, 0.3 + minutes * 0.01);
+  const speechSeconds = totalSeconds * (1 - pauseShare);
+  return {
+    words: Math.max(40, Math.round((speechSeconds / 60) * wordsPerMinute)),
+    pauseSeconds: Math.round(totalSeconds * pauseShare),
+  };
+};
+
+export const isWithinTolerance = (actualSeconds: number, targetSeconds: number): boolean =>
+  Math.abs(actualSeconds - targetSeconds) <= targetSeconds * DURATION_TOLERANCE;
+
+/**
+ * Rescales the next pause while audio is still streaming in. Earlier pauses
+ * are already fixed, so this one takes its proportional share of the silence
+ * still needed: `remainingSeconds` is the nominal length of every pause left,
+ * including this one, and `neededSeconds` what they should add up to.
+ */
+export const fitNextPause = (seconds: number, remainingSeconds: number, neededSeconds: number): number => {
+  const scaled = remainingSeconds > 0 ? seconds * (neededSeconds / remainingSeconds) : seconds;
+  return Math.min(MAX_PAUSE_SECONDS, Math.max(MIN_PAUSE_SECONDS, scaled));
+};
+
+/**
+ * Reads a stored duration in minutes. Sessions saved before numeric
+ * durations used "Short" | "Medium" | "Long".
+ */
+export const toMinutes = (value: unknown): number => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  const legacy: Record<string, number> = { Short: 5, Medium: 10, Long: 20 };
+  return (typeof value === 'string' && legacy[value]) || 10;
+};
\ No newline at end of file
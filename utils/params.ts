@@ -0,0 +1,16 @@
+import { GenerationParams } from '../types';
+import { toMinutes } from './pacing';
+import { DEFAULT_VOICE_SETTINGS } from './voices';
+
+/**
+ * Brings params saved by older versions up to date: the duration used to be
+ * "Short" | "Medium" | "Long", and voice settings didn't exist.
+ */
+export const normalizeParams = (params?: Partial<GenerationParams>): GenerationParams | undefined =>
+  params && {
+    ...DEFAULT_VOICE_SETTINGS,
+    mood: '',
+    focus: '',
+    ...params,
+    duration: toMinutes(params.duration),
+  };
\ No newline at end of file
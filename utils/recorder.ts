@@ -0,0 +1,42 @@
+// Microphone capture for push-to-talk, via MediaRecorder.
+
+export interface Recording {
+  /** Stops capture and resolves with everything recorded. */
+  stop: () => Promise<Blob>;
+  /** Stops capture and throws the audio away. */
+  cancel: () => void;
+}
+
+/**
+ * Starts recording from the default microphone. Rejects if the browser has
+ * no recorder or the user denies access.
+ */
+export const startRecording = async (): Promise<Recording> => {
+  if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+    throw new Error('Voice input is not supported in this browser');
+  }
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size) chunks.push(event.data);
+  };
+  // Turn the microphone off (and its indicator) as soon as we're done
+  const release = () => stream.getTracks().forEach((track) => track.stop());
+  recorder.start();
+
+  return {
+    stop: () =>
+      new Promise((resolve) => {
+        recorder.onstop = () => {
+          release();
+          resolve(new Blob(chunks, { type: recorder.mimeType }));
+        };
+        recorder.stop();
+      }),
+    cancel: () => {
+      recorder.onstop = release;
+      recorder.stop();
+    },
+  };
+};
\ No newline at end of file
@@ -0,0 +1,72 @@
+export interface RetryOptions {
+  retries: number; // attempts after the first
+  timeoutMs: number; // per attempt
+  baseDelayMs?: number; // doubled after every failure
+  signal?: AbortSignal;
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+/**
+ * An AbortController that also aborts, with the same reason, when `parent` does.
+ */
+export const linkedController = (parent?: AbortSignal): AbortController => {
+  const controller = new AbortController();
+  if (parent?.aborted) controller.abort(parent.reason);
+  else parent?.addEventListener("abort", () => controller.abort(parent.reason), { once: true });
+  return controller;
+};
+
+// Rejects with the signal's reason as soon as it aborts
+const whenAborted = (signal: AbortSignal) =>
+  new Promise<never>((_, reject) => {
+    if (signal.aborted) reject(signal.reason);
+    else signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+  });
+
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Runs `task` with a timeout on each attempt, retrying failures that
+ * `shouldRetry` accepts with exponential backoff and jitter. The task gets a
+ * signal that aborts on timeout (reason: a "TimeoutError" DOMException) or
+ * when `signal` aborts; either way the returned promise settles right away,
+ * even if the task ignores its signal.
+ */
+export const withRetry = async <T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  { retries, timeoutMs, baseDelayMs = 1000, signal, shouldRetry = () => true }: RetryOptions,
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal!.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const timer = setTimeout(
+      () => controller.abort(new DOMException(`Timed out after ${timeoutMs / 1000}s`, "TimeoutError")),
+      timeoutMs,
+    );
+    try {
+      return await Promise.race([task(controller.signal), whenAborted(controller.signal)]);
+    } catch (error) {
+      // Report our own abort reason rather than whatever the task made of it
+      const reason = controller.signal.aborted ? controller.signal.reason : error;
+      if (signal?.aborted || attempt >= retries || !shouldRetry(reason)) throw reason;
+      const delay = baseDelayMs * 2 ** attempt;
+      await sleep(delay / 2 + Math.random() * delay / 2, signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+};
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { BREATHING_MARKER, BreathTiming, MAX_ROUNDS, resolveTiming } from './breathing';
+
+// Parsing for meditation scripts. Scripts are plain text with optional
+// silence markers such as "[pause 20s]" or "[pause 2 min]", and breathing
+// exercise markers such as "[breathe box x4]".
+
+export type ScriptPart =
+  | { kind: 'speech'; text: string; paragraph: number }
+  | { kind: 'pause'; seconds: number }
+  | { kind: 'breathing'; timing: BreathTiming; rounds: number };
+
+const PAUSE_PATTERN = /\[\s*pause\s+(\d+(?:\.\d+)?)\s*(s|secs?|seconds?|m|mins?|minutes?)?\s*\]/gi;
+// Any marker; groups 1-2 belong to a pause, 3-4 to a breathing exercise
+const MARKER_PATTERN = new RegExp(`${PAUSE_PATTERN.source}|${BREATHING_MARKER.source}`, 'gi');
+
+// Sentence plus any trailing punctuation/quotes; a final fragment without
+// punctuation is kept as its own sentence. Includes CJK and Devanagari stops.
+const SENTENCE_PATTERN = /[^.!?…。！？।]+[.!?…。！？।]+["')\]」』”]*|[^.!?…。！？।]+$/g;
+
+// Longest text sent to TTS in one request
+export const MAX_SEGMENT_CHARS = 1200;
+
+const toSeconds = (value: string, unit = 's') => parseFloat(value) * (unit.toLowerCase().startsWith('m') ? 60 : 1);
+
+export const formatPauseMarker = (seconds: number) => `[pause ${Math.round(seconds)}s]`;
+
+export const stripPauseMarkers = (text: string) =>
+  text.replace(MARKER_PATTERN, ' ').replace(/\s{2,}/g, ' ').trim();
+
+const wordCount = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * Puts back the markers of `original` that a rewrite of its speech dropped,
+ * each where it was: before the speech, after it, or at the sentence break
+ * about as far through the new text as it was through the old.
+ */
+export const restoreMarkers = (original: string, rewritten: string): string => {
+  const sentences = splitSentences(rewritten);
+  const leading: string[] = [];
+  const trailing: string[] = [];
+  const between = sentences.map(() => [] as string[]); // after each sentence
+  const totalWords = wordCount(stripPauseMarkers(original));
+
+  for (const match of original.matchAll(MARKER_PATTERN)) {
+    const marker = match[0];
+    if (rewritten.includes(marker)) continue;
+    const wordsBefore = wordCount(stripPauseMarkers(original.slice(0, match.index)));
+    if (!wordsBefore) leading.push(marker);
+    else if (wordsBefore >= totalWords || sentences.length < 2) trailing.push(marker);
+    else {
+      const slot = Math.min(sentences.length - 1, Math.max(1, Math.round((wordsBefore / totalWords) * sentences.length)));
+      between[slot - 1].push(marker);
+    }
+  }
+  // Only split the new text when a marker has to go inside it
+  const middle = between.some((markers) => markers.length)
+    ? sentences.flatMap((sentence, i) => [sentence, ...between[i]])
+    : [rewritten];
+  return [...leading, ...middle, ...trailing].join(' ');
+};
+
+export const splitSentences = (text: string): string[] =>
+  (text.match(SENTENCE_PATTERN) || [text]).map((s) => s.trim()).filter(Boolean);
+
+/**
+ * Splits a script into speech and pause parts. Each non-empty line of speech
+ * is a paragraph; a marker in the middle of a line splits it into two parts
+ * of the same paragraph.
+ */
+export const parseScript = (script: string): ScriptPart[] => {
+  const parts: ScriptPart[] = [];
+  let paragraph = 0;
+
+  script.split('\n').forEach((line) => {
+    let hasSpeech = false;
+    let lastIndex = 0;
+    const pushSpeech = (raw: string) => {
+      const text = raw.replace(/\s{2,}/g, ' ').trim();
+      if (!text) return;
+      parts.push({ kind: 'speech', text, paragraph });
+      hasSpeech = true;
+    };
+
+    for (const match of line.matchAll(MARKER_PATTERN)) {
+      pushSpeech(line.slice(lastIndex, match.index));
+      if (match[1] !== undefined) {
+        parts.push({ kind: 'pause', seconds: toSeconds(match[1], match[2]) });
+      } else {
+        // A pattern we don't know is dropped rather than read aloud
+        const timing = resolveTiming(match[3]);
+        const rounds = Math.min(MAX_ROUNDS, Number(match[4]));
+        if (timing && rounds > 0) parts.push({ kind: 'breathing', timing, rounds });
+      }
+      lastIndex = (match.index ?? 0) + match[0].length;
+    }
+    pushSpeech(line.slice(lastIndex));
+    if (hasSpeech) paragraph++;
+  });
+  return parts;
+};
+
+/**
+ * Breaks long speech into sentence-aligned chunks no longer than maxChars.
+ */
+export const chunkSpeech = (text: string, maxChars: number = MAX_SEGMENT_CHARS): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+  splitSentences(text).forEach((sentence) => {
+    if (current && current.length + sentence.length + 1 > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${sentence}` : sentence;
+  });
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+/**
+ * Replaces the length of each pause marker, in order of appearance.
+ */
+export const rewritePauses = (script: string, seconds: number[]): string => {
+  let index = 0;
+  return script.replace(PAUSE_PATTERN, (marker) =>
+    index < seconds.length ? formatPauseMarker(seconds[index++]) : marker);
+};
+
+/**
+ * Total silence requested by the pause markers, in seconds.
+ */
+export const totalPauseSeconds = (script: string): number =>
+  parseScript(script).reduce((sum, part) => sum + (part.kind === 'pause' ? part.seconds : 0), 0);
\ No newline at end of file
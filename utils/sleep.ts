@@ -0,0 +1,61 @@
+import { GenerationParams, SleepSettings } from '../types';
+
+export const DEFAULT_SLEEP_SETTINGS: SleepSettings = { enabled: false, timerMinutes: 0, fadeMinutes: 5 };
+
+export const SLEEP_TIMER_CHOICES = [0, 15, 30, 45, 60, 90];
+export const SLEEP_FADE_CHOICES = [1, 3, 5, 10];
+
+/**
+ * Whether a session was asked for to fall asleep to, so sleep mode can be
+ * suggested without the listener looking for it.
+ */
+export const isSleepSession = (params?: GenerationParams) =>
+  /sleep|bedtime|insomnia/i.test(`${params?.mood ?? ''} ${params?.focus ?? ''}`);
+
+// Screen Wake Lock: keeps the (dimmed) screen on while a sleep session plays,
+// so the device doesn't lock and suspend the page. The browser drops the lock
+// whenever the page is hidden, so it's taken again on return.
+let wakeLock: WakeLockSentinel | null = null;
+let wanted = false;
+let requesting = false;
+let listening = false;
+
+const acquire = async () => {
+  if (!('wakeLock' in navigator) || wakeLock || requesting || document.visibilityState !== 'visible') return;
+  requesting = true;
+  try {
+    const sentinel = await navigator.wakeLock.request('screen');
+    if (!wanted) {
+      sentinel.release();
+      return;
+    }
+    wakeLock = sentinel;
+    sentinel.addEventListener('release', () => {
+      if (wakeLock === sentinel) wakeLock = null;
+    });
+  } catch {
+    // Refused, e.g. in battery saver; the screen just locks as usual
+  } finally {
+    requesting = false;
+  }
+};
+
+/**
+ * Holds the screen on until called again with false.
+ */
+export const holdWakeLock = (hold: boolean) => {
+  wanted = hold;
+  if (!listening) {
+    listening = true;
+    document.addEventListener('visibilitychange', () => {
+      if (wanted) acquire();
+    });
+  }
+  if (hold) {
+    acquire();
+  } else if (wakeLock) {
+    const sentinel = wakeLock;
+    wakeLock = null;
+    sentinel.release().catch(() => {});
+  }
+};
\ No newline at end of file
@@ -0,0 +1,26 @@
+// Small localStorage helpers for user preferences. Failures (private mode,
+// quota, corrupted JSON) fall back silently since preferences are optional.
+
+const PREFIX = 'zengen.';
+
+export const loadPreference = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    if (raw === null) return fallback;
+    const parsed = JSON.parse(raw);
+    // Merge objects so preferences saved by older versions pick up new fields
+    return fallback && typeof fallback === 'object' && !Array.isArray(fallback)
+      ? { ...fallback, ...parsed }
+      : parsed;
+  } catch {
+    return fallback;
+  }
+};
+
+export const savePreference = <T>(key: string, value: T) => {
+  try {
+    localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.error('Saving preference failed:', error);
+  }
+};
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { ScriptCue } from '../types';
+import { detectSpeechRegions, SpeechRegion } from './ambient';
+import { parseScript, splitSentences } from './script';
+
+/**
+ * Splits a script into sentences, remembering which paragraph each came from.
+ * Pause markers are dropped; they only shape the audio.
+ */
+export const splitScript = (script: string): Omit<ScriptCue, 'start' | 'end'>[] =>
+  parseScript(script).flatMap((part) =>
+    part.kind === 'speech'
+      ? splitSentences(part.text).map((text) => ({ text, paragraph: part.paragraph }))
+      : [],
+  );
+
+/**
+ * Maps a point on the "speech only" clock (silence removed) back onto the
+ * audio timeline. Points that land on a boundary snap forward to the next
+ * region so sentences begin where speech actually resumes.
+ */
+const toAudioTime = (regions: SpeechRegion[], speechTime: number, snapForward: boolean): number => {
+  let elapsed = 0;
+  for (const region of regions) {
+    const length = region.end - region.start;
+    const remaining = speechTime - elapsed;
+    if (remaining < length || (!snapForward && remaining <= length)) {
+      return region.start + Math.max(0, remaining);
+    }
+    elapsed += length;
+  }
+  return regions.length ? regions[regions.length - 1].end : 0;
+};
+
+/**
+ * Estimates when each sentence is spoken. Sentence lengths are distributed
+ * across the detected speech regions in proportion to their character
+ * count, so long silent pauses are skipped rather than smeared across text.
+ */
+export const estimateCues = (script: string, buffer?: AudioBuffer): ScriptCue[] => {
+  const sentences = splitScript(script);
+  if (!buffer) return sentences.map((s) => ({ ...s, start: 0, end: 0 }));
+
+  const detected = detectSpeechRegions(buffer);
+  const regions = detected.length ? detected : [{ start: 0, end: buffer.duration }];
+  const speechTotal = regions.reduce((sum, r) => sum + (r.end - r.start), 0);
+  const charTotal = sentences.reduce((sum, s) => sum + s.text.length, 0) || 1;
+
+  let chars = 0;
+  return sentences.map((sentence) => {
+    const start = toAudioTime(regions, (chars / charTotal) * speechTotal, true);
+    chars += sentence.text.length;
+    const end = toAudioTime(regions, (chars / charTotal) * speechTotal, false);
+    return { ...sentence, start, end };
+  });
+};
+
+/**
+ * Index of the cue being spoken at `position`, or of the last one that
+ * started before it (so the highlight holds through pauses). -1 before the first.
+ * Cues without timings yet (end 0, still being synthesized) are never active.
+ */
+export const findActiveCue = (cues: ScriptCue[], position: number): number => {
+  let active = -1;
+  for (let i = 0; i < cues.length; i++) {
+    if (cues[i].end > 0 && cues[i].start <= position) active = i;
+    else break;
+  }
+  return active;
+};
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { SpeakingPace, VoiceSettings } from '../types';
+
+// Prebuilt Gemini TTS voices and their character
+export const VOICES: { name: string; style: string }[] = [
+  { name: 'Kore', style: 'Firm' },
+  { name: 'Achernar', style: 'Soft' },
+  { name: 'Vindemiatrix', style: 'Gentle' },
+  { name: 'Sulafat', style: 'Warm' },
+  { name: 'Enceladus', style: 'Breathy' },
+  { name: 'Aoede', style: 'Breezy' },
+  { name: 'Algieba', style: 'Smooth' },
+  { name: 'Despina', style: 'Smooth' },
+  { name: 'Callirrhoe', style: 'Easy-going' },
+  { name: 'Umbriel', style: 'Easy-going' },
+  { name: 'Schedar', style: 'Even' },
+  { name: 'Gacrux', style: 'Mature' },
+  { name: 'Achird', style: 'Friendly' },
+  { name: 'Iapetus', style: 'Clear' },
+  { name: 'Erinome', style: 'Clear' },
+  { name: 'Charon', style: 'Informative' },
+  { name: 'Rasalgethi', style: 'Informative' },
+  { name: 'Sadaltager', style: 'Knowledgeable' },
+  { name: 'Zubenelgenubi', style: 'Casual' },
+  { name: 'Algenib', style: 'Gravelly' },
+  { name: 'Orus', style: 'Firm' },
+  { name: 'Alnilam', style: 'Firm' },
+  { name: 'Pulcherrima', style: 'Forward' },
+  { name: 'Zephyr', style: 'Bright' },
+  { name: 'Autonoe', style: 'Bright' },
+  { name: 'Leda', style: 'Youthful' },
+  { name: 'Puck', style: 'Upbeat' },
+  { name: 'Laomedeia', style: 'Upbeat' },
+  { name: 'Sadachbia', style: 'Lively' },
+  { name: 'Fenrir', style: 'Excitable' },
+];
+
+// `wordsPerMinute` seeds the duration budget until a real rate is measured
+export const PACES: { id: SpeakingPace; label: string; instruction: string; wordsPerMinute: number }[] = [
+  { id: 'very-slow', label: 'Very slow', instruction: 'Read very slowly and softly, with long, unhurried breaths between phrases', wordsPerMinute: 90 },
+  { id: 'slow', label: 'Slow', instruction: 'Read slowly and soothingly, like a calm meditation guide', wordsPerMinute: 110 },
+  { id: 'moderate', label: 'Moderate', instruction: 'Read in a calm, warm voice at a relaxed conversational pace', wordsPerMinute: 130 },
+];
+
+// Output languages, with a preview line in each
+export const LANGUAGES: { code: string; name: string; nativeName: string; sample: string }[] = [
+  { code: 'en', name: 'English', nativeName: 'English', sample: 'Take a slow, deep breath, and let your shoulders soften.' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español', sample: 'Respira lenta y profundamente, y deja que tus hombros se relajen.' },
+  { code: 'fr', name: 'French', nativeName: 'Français', sample: 'Prenez une respiration lente et profonde, et laissez vos épaules se détendre.' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch', sample: 'Atme langsam und tief ein, und lass deine Schultern weich werden.' },
+  { code: 'it', name: 'Italian', nativeName: 'Italiano', sample: 'Fai un respiro lento e profondo, e lascia che le spalle si rilassino.' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português', sample: 'Respire de forma lenta e profunda, e deixe os ombros relaxarem.' },
+  { code: 'nl', name: 'Dutch', nativeName: 'Nederlands', sample: 'Adem langzaam en diep in, en laat je schouders zacht worden.' },
+  { code: 'pl', name: 'Polish', nativeName: 'Polski', sample: 'Weź powolny, głęboki oddech i pozwól ramionom się rozluźnić.' },
+  { code: 'ru', name: 'Russian', nativeName: 'Русский', sample: 'Сделайте медленный, глубокий вдох и позвольте плечам расслабиться.' },
+  { code: 'tr', name: 'Turkish', nativeName: 'Türkçe', sample: 'Yavaş ve derin bir nefes al, omuzlarının gevşemesine izin ver.' },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية', sample: 'خذ نفسًا بطيئًا وعميقًا، ودع كتفيك يسترخيان.' },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी', sample: 'धीरे से एक गहरी साँस लें, और अपने कंधों को ढीला छोड़ दें।' },
+  { code: 'id', name: 'Indonesian', nativeName: 'Bahasa Indonesia', sample: 'Tarik napas perlahan dan dalam, dan biarkan bahu Anda melemas.' },
+  { code: 'vi', name: 'Vietnamese', nativeName: 'Tiếng Việt', sample: 'Hãy hít một hơi thật chậm và sâu, và để đôi vai thả lỏng.' },
+  { code: 'th', name: 'Thai', nativeName: 'ไทย', sample: 'หายใจเข้าช้าๆ ลึกๆ แล้วปล่อยให้ไหล่ผ่อนคลาย' },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語', sample: 'ゆっくりと深く息を吸って、肩の力を抜いてください。' },
+  { code: 'ko', name: 'Korean', nativeName: '한국어', sample: '천천히 깊게 숨을 들이쉬고, 어깨의 힘을 빼세요.' },
+  { code: 'zh', name: 'Chinese (Mandarin)', nativeName: '中文', sample: '慢慢地深吸一口气，让你的肩膀放松下来。' },
+];
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  voice: 'Kore',
+  pace: 'slow',
+  language: 'en',
+};
+
+export const getPace = (id: SpeakingPace) => PACES.find((p) => p.id === id) || PACES[1];
+
+export const getLanguage = (code: string) => LANGUAGES.find((l) => l.code === code) || LANGUAGES[0];
\ No newline at end of file
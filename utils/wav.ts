@@ -0,0 +1,86 @@
+import { encodePCM } from './audio';
+
+const writeString = (view: DataView, offset: number, value: string) => {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+};
+
+/**
+ * Encodes an AudioBuffer as a 16-bit PCM RIFF/WAVE file.
+ */
+export function encodeWAV(buffer: AudioBuffer): Uint8Array {
+  const pcm = encodePCM(buffer);
+  const numChannels = buffer.numberOfChannels;
+  const sampleRate = buffer.sampleRate;
+  const bytesPerSample = 2;
+
+  const wav = new Uint8Array(44 + pcm.length);
+  const view = new DataView(wav.buffer);
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + pcm.length, true);
+  writeString(view, 8, 'WAVE');
+
+  // fmt chunk
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * bytesPerSample, true);
+  view.setUint16(32, numChannels * bytesPerSample, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+
+  // data chunk
+  writeString(view, 36, 'data');
+  view.setUint32(40, pcm.length, true);
+  wav.set(pcm, 44);
+
+  return wav;
+}
+
+export interface DecodedWAV {
+  pcm: Uint8Array; // 16-bit LE interleaved, ready for decodeAudioData
+  sampleRate: number;
+  numChannels: number;
+}
+
+/**
+ * Parses a 16-bit PCM WAV file (as written by encodeWAV) back into raw PCM.
+ * Throws a descriptive error for anything else.
+ */
+export function decodeWAV(bytes: Uint8Array): DecodedWAV {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const readString = (offset: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+  if (bytes.length < 12 || readString(0, 4) !== 'RIFF' || readString(8, 4) !== 'WAVE') {
+    throw new Error('Audio is not a WAV file');
+  }
+
+  let format: { sampleRate: number; numChannels: number } | null = null;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = readString(offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      const audioFormat = view.getUint16(body, true);
+      const bitsPerSample = view.getUint16(body + 14, true);
+      if (audioFormat !== 1 || bitsPerSample !== 16) {
+        throw new Error('Only 16-bit PCM WAV audio is supported');
+      }
+      format = { numChannels: view.getUint16(body + 2, true), sampleRate: view.getUint32(body + 4, true) };
+    } else if (id === 'data') {
+      if (!format) throw new Error('WAV data appears before its format header');
+      const end = Math.min(body + size, bytes.length);
+      // Copy so the Int16 view in decodeAudioData starts on an aligned offset
+      const pcm = bytes.slice(body, end - ((end - body) % (2 * format.numChannels)));
+      return { pcm, ...format };
+    }
+    offset = body + size + (size % 2); // chunks are word-aligned
+  }
+  throw new Error('WAV file has no audio data');
+}
\ No newline at end of file
@@ -0,0 +1,10 @@
+/// <reference types="vite/client" />
+
+// Safari's Audio Session API, not yet in the DOM typings
+interface AudioSession {
+  type: 'auto' | 'playback' | 'transient' | 'transient-solo' | 'ambient' | 'play-and-record';
+}
+
+interface Navigator {
+  readonly audioSession?: AudioSession;
+}
\ No newline at end of file